@@ -1,4 +1,5 @@
 import {
+  ApiClientProvider,
   SearchProvider,
   ListingProvider,
   TaskDraftProvider,
@@ -9,11 +10,13 @@ export default function RootLayout({ children }: { children: ReactNode }) {
   return (
     <html lang="en">
       <body>
-        <SearchProvider>
-          <ListingProvider>
-            <TaskDraftProvider>{children}</TaskDraftProvider>
-          </ListingProvider>
-        </SearchProvider>
+        <ApiClientProvider baseUrl={process.env.NEXT_PUBLIC_API_URL}>
+          <SearchProvider>
+            <ListingProvider>
+              <TaskDraftProvider>{children}</TaskDraftProvider>
+            </ListingProvider>
+          </SearchProvider>
+        </ApiClientProvider>
       </body>
     </html>
   );
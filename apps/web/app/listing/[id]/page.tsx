@@ -1,25 +1,49 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { mockApiClient } from '../../../src/lib/api-client';
+import { useApiClient } from '../../../src/lib/context';
+import { formatPrice } from '../../../src/lib/format';
 import type { SearchListing } from '../../../src/lib/models';
+import { parseId } from '../../../src/lib/params';
 import Link from 'next/link';
 
 export default function ListingPage({ params }: { params: { id: string } }) {
   const [listing, setListing] = useState<SearchListing | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const apiClient = useApiClient();
 
   useEffect(() => {
-    mockApiClient.getListing(parseInt(params.id, 10)).then((result) => {
-      setListing(result);
+    const listingId = parseId(params.id);
+    setError(null);
+    if (listingId === null) {
+      setListing(null);
       setIsLoading(false);
-    });
-  }, [params.id]);
+      return;
+    }
+    setIsLoading(true);
+    apiClient
+      .getListing(listingId)
+      .then(setListing)
+      .catch((err: unknown) => {
+        setError(err instanceof Error ? err.message : 'Failed to load listing');
+      })
+      .finally(() => setIsLoading(false));
+  }, [apiClient, params.id]);
 
   if (isLoading) {
     return <div style={{ padding: '2rem' }}>Loading...</div>;
   }
 
+  if (error) {
+    return (
+      <div style={{ padding: '2rem' }}>
+        <p>Could not load listing: {error}</p>
+        <Link href="/">Back to search</Link>
+      </div>
+    );
+  }
+
   if (!listing) {
     return (
       <div style={{ padding: '2rem' }}>
@@ -55,11 +79,13 @@ export default function ListingPage({ params }: { params: { id: string } }) {
         <h2 style={{ fontSize: '1.25rem', marginBottom: '0.5rem' }}>Pricing</h2>
         <div style={{ display: 'flex', gap: '2rem' }}>
           <div>
-            <strong>Unit Price:</strong> {listing.pricing.unitPrice}{' '}
+            <strong>Unit Price:</strong>{' '}
+            {formatPrice(listing.pricing.unitPrice, listing.pricing)} per{' '}
             {listing.pricing.unitType}
           </div>
           <div>
-            <strong>Base Price:</strong> {listing.pricing.basePrice}
+            <strong>Base Price:</strong>{' '}
+            {formatPrice(listing.pricing.basePrice, listing.pricing)}
           </div>
           <div>
             <strong>Min Units:</strong> {listing.pricing.minUnits}
@@ -77,6 +103,12 @@ export default function ListingPage({ params }: { params: { id: string } }) {
             <strong>Challenge Window:</strong>{' '}
             {listing.policy.challengeWindowSec}s
           </div>
+          <div>
+            <strong>Delivery Window:</strong>{' '}
+            {listing.policy.deliveryWindowSec === null
+              ? 'Unknown'
+              : `${listing.policy.deliveryWindowSec}s`}
+          </div>
           <div>
             <strong>Post-Dispute Window:</strong>{' '}
             {listing.policy.postDisputeWindowSec > 0
@@ -134,8 +166,9 @@ export default function ListingPage({ params }: { params: { id: string } }) {
             <strong>Completed Tasks:</strong> {listing.metrics.settledCount}
           </div>
           <div>
-            <strong>Avg Time to Submit:</strong>{' '}
-            {Math.round(listing.metrics.avgTimeToSubmitSec / 60)} minutes
+            <strong>Time to Submit:</strong>{' '}
+            {Math.round(listing.metrics.p50TimeToSubmitSec / 60)} min typical,{' '}
+            {Math.round(listing.metrics.p90TimeToSubmitSec / 60)} min p90
           </div>
         </div>
       </section>
@@ -1,8 +1,9 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { useSearch } from '../src/lib/context';
-import { mockApiClient } from '../src/lib/api-client';
+import { useApiClient, useSearch } from '../src/lib/context';
+import { formatPrice } from '../src/lib/format';
+import type { SearchQuery } from '../src/lib/models';
 import Link from 'next/link';
 
 export default function SearchPage() {
@@ -15,36 +16,42 @@ export default function SearchPage() {
     setResults,
     setLoading,
   } = useSearch();
+  const apiClient = useApiClient();
   const [searchText, setSearchText] = useState('');
+  const [error, setError] = useState<string | null>(null);
 
-  const handleSearch = useCallback(async () => {
-    setLoading(true);
-    try {
-      const response = await mockApiClient.search({
-        ...query,
-        text: searchText,
-      });
-      setResults(response.results, response.facets);
-    } finally {
-      setLoading(false);
-    }
-  }, [query, searchText, setLoading, setResults]);
+  const runSearch = useCallback(
+    async (searchQuery: SearchQuery) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await apiClient.search({
+          ...searchQuery,
+          text: searchText,
+        });
+        setResults(response.results, response.facets);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Search failed');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [apiClient, searchText, setLoading, setResults],
+  );
+
+  const handleSearch = useCallback(() => runSearch(query), [runSearch, query]);
 
   useEffect(() => {
     handleSearch();
   }, [handleSearch]);
 
   const handleFilterChange = (
-    filterType: 'unitType' | 'priceBucket',
+    filterType: 'unitType' | 'priceBucket' | 'paymentToken',
     value: string | undefined,
   ) => {
     const newQuery = { ...query, [filterType]: value };
     setQuery(newQuery);
-    setLoading(true);
-    mockApiClient.search({ ...newQuery, text: searchText }).then((response) => {
-      setResults(response.results, response.facets);
-      setLoading(false);
-    });
+    runSearch(newQuery);
   };
 
   return (
@@ -139,9 +146,41 @@ export default function SearchPage() {
               ))}
             </select>
           </div>
+
+          <div style={{ marginBottom: '1rem' }}>
+            <label
+              style={{
+                display: 'block',
+                marginBottom: '0.25rem',
+                fontWeight: 'bold',
+              }}
+            >
+              Payment Token
+            </label>
+            <select
+              value={query.paymentToken ?? ''}
+              onChange={(e) =>
+                handleFilterChange('paymentToken', e.target.value || undefined)
+              }
+              style={{ width: '100%', padding: '0.25rem' }}
+            >
+              <option value="">All</option>
+              {Object.entries(facets.paymentToken).map(([token, count]) => (
+                <option key={token} value={token}>
+                  {token} ({count})
+                </option>
+              ))}
+            </select>
+          </div>
         </aside>
 
         <main style={{ flex: 1 }}>
+          {error && (
+            <p style={{ color: '#dc3545', marginBottom: '1rem' }}>
+              Search failed: {error}
+            </p>
+          )}
+
           <p style={{ marginBottom: '1rem' }}>
             {results.length} result{results.length !== 1 ? 's' : ''} found
           </p>
@@ -187,8 +226,11 @@ export default function SearchPage() {
                 }}
               >
                 <span>
-                  {result.listing.pricing.unitPrice}{' '}
-                  {result.listing.pricing.unitType}
+                  {formatPrice(
+                    result.listing.pricing.unitPrice,
+                    result.listing.pricing,
+                  )}{' '}
+                  per {result.listing.pricing.unitType}
                 </span>
                 <span style={{ margin: '0 0.5rem' }}>•</span>
                 <span>Trust: {(result.trustScore * 100).toFixed(0)}%</span>
@@ -265,7 +307,7 @@ export default function SearchPage() {
             </div>
           ))}
 
-          {results.length === 0 && !isLoading && (
+          {results.length === 0 && !isLoading && !error && (
             <p style={{ color: '#666', fontStyle: 'italic' }}>
               No results found
             </p>
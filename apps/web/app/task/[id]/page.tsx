@@ -1,25 +1,49 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { mockApiClient } from '../../../src/lib/api-client';
+import { useApiClient } from '../../../src/lib/context';
+import { formatPrice } from '../../../src/lib/format';
 import type { Task } from '../../../src/lib/models';
+import { parseId } from '../../../src/lib/params';
 import Link from 'next/link';
 
 export default function TaskPage({ params }: { params: { id: string } }) {
   const [task, setTask] = useState<Task | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const apiClient = useApiClient();
 
   useEffect(() => {
-    mockApiClient.getTask(parseInt(params.id, 10)).then((result) => {
-      setTask(result);
+    const taskId = parseId(params.id);
+    setError(null);
+    if (taskId === null) {
+      setTask(null);
       setIsLoading(false);
-    });
-  }, [params.id]);
+      return;
+    }
+    setIsLoading(true);
+    apiClient
+      .getTask(taskId)
+      .then(setTask)
+      .catch((err: unknown) => {
+        setError(err instanceof Error ? err.message : 'Failed to load task');
+      })
+      .finally(() => setIsLoading(false));
+  }, [apiClient, params.id]);
 
   if (isLoading) {
     return <div style={{ padding: '2rem' }}>Loading...</div>;
   }
 
+  if (error) {
+    return (
+      <div style={{ padding: '2rem' }}>
+        <p>Could not load task: {error}</p>
+        <Link href="/">Back to search</Link>
+      </div>
+    );
+  }
+
   if (!task) {
     return (
       <div style={{ padding: '2rem' }}>
@@ -91,7 +115,7 @@ export default function TaskPage({ params }: { params: { id: string } }) {
           {task.quotedTotalPrice !== undefined && (
             <>
               <dt style={{ fontWeight: 'bold' }}>Quoted Price:</dt>
-              <dd>{task.quotedTotalPrice}</dd>
+              <dd>{formatPrice(task.quotedTotalPrice, task)}</dd>
             </>
           )}
 
@@ -196,14 +220,14 @@ export default function TaskPage({ params }: { params: { id: string } }) {
           {task.quotedTotalPrice !== undefined && (
             <>
               <dt style={{ fontWeight: 'bold' }}>Quoted Price:</dt>
-              <dd>{task.quotedTotalPrice}</dd>
+              <dd>{formatPrice(task.quotedTotalPrice, task)}</dd>
             </>
           )}
 
           {task.fundedAmount !== undefined && (
             <>
               <dt style={{ fontWeight: 'bold' }}>Funded Amount:</dt>
-              <dd>{task.fundedAmount}</dd>
+              <dd>{formatPrice(task.fundedAmount, task)}</dd>
             </>
           )}
 
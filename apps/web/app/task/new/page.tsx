@@ -2,21 +2,25 @@
 
 import { useState, useEffect, Suspense } from 'react';
 import { useSearchParams } from 'next/navigation';
-import { mockApiClient } from '../../../src/lib/api-client';
+import { useApiClient } from '../../../src/lib/context';
+import { formatPrice } from '../../../src/lib/format';
 import type { SearchListing, TaskDraft } from '../../../src/lib/models';
+import { parseId } from '../../../src/lib/params';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 
 function NewTaskPageContent() {
   const searchParams = useSearchParams();
   const router = useRouter();
-  const listingId = searchParams.get('listingId');
+  const apiClient = useApiClient();
+  const listingId = parseId(searchParams.get('listingId'));
 
   const [listing, setListing] = useState<SearchListing | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
 
   const [draft, setDraft] = useState<TaskDraft>({
-    listingId: listingId ? parseInt(listingId, 10) : 0,
+    listingId: listingId ?? 0,
     proposedUnits: 1,
   });
 
@@ -24,15 +28,20 @@ function NewTaskPageContent() {
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   useEffect(() => {
-    if (listingId) {
-      mockApiClient.getListing(parseInt(listingId, 10)).then((result) => {
-        setListing(result);
-        setIsLoading(false);
-      });
+    if (listingId !== null) {
+      apiClient
+        .getListing(listingId)
+        .then(setListing)
+        .catch((err: unknown) => {
+          setLoadError(
+            err instanceof Error ? err.message : 'Failed to load listing',
+          );
+        })
+        .finally(() => setIsLoading(false));
     } else {
       setIsLoading(false);
     }
-  }, [listingId]);
+  }, [apiClient, listingId]);
 
   const validate = (): boolean => {
     const newErrors: Record<string, string> = {};
@@ -75,7 +84,7 @@ function NewTaskPageContent() {
 
     setIsSubmitting(true);
     try {
-      const task = await mockApiClient.createTask(draft);
+      const task = await apiClient.createTask(draft);
       router.push(`/task/${task.taskId}`);
     } catch (err) {
       setErrors({
@@ -105,6 +114,12 @@ function NewTaskPageContent() {
 
       <h1 style={{ marginBottom: '1rem' }}>Create New Task</h1>
 
+      {loadError && (
+        <p style={{ color: '#dc3545', marginBottom: '1rem' }}>
+          Could not load listing {listingId}: {loadError}
+        </p>
+      )}
+
       {listing && (
         <div
           style={{
@@ -120,8 +135,9 @@ function NewTaskPageContent() {
             {listing.metadata.description}
           </p>
           <p style={{ fontSize: '0.875rem' }}>
-            <strong>Price:</strong> {listing.pricing.unitPrice}{' '}
-            {listing.pricing.unitType} per unit
+            <strong>Price:</strong>{' '}
+            {formatPrice(listing.pricing.unitPrice, listing.pricing)} per{' '}
+            {listing.pricing.unitType}
           </p>
         </div>
       )}
@@ -1,5 +1,11 @@
+import {
+  DEFAULT_TOKEN_DECIMALS,
+  parseTokenAmount,
+  tokenAmountToNumber,
+} from '@moes/shared';
 import type {
   ApiClient,
+  SearchFacets,
   SearchListing,
   SearchQuery,
   SearchResponse,
@@ -51,17 +57,26 @@ export class MockApiClient implements ApiClient {
       };
       const range = bucketRanges[query.priceBucket];
       if (range) {
-        results = results.filter(
-          (l) =>
-            l.pricing.unitPrice >= range[0] && l.pricing.unitPrice < range[1],
-        );
+        results = results.filter((l) => {
+          const unitPrice = this.unitPriceOf(l);
+          return unitPrice >= range[0] && unitPrice < range[1];
+        });
       }
     }
 
+    if (query.paymentToken) {
+      const wanted = query.paymentToken.toLowerCase();
+      results = results.filter(
+        (l) =>
+          l.pricing.symbol?.toLowerCase() === wanted ||
+          l.pricing.paymentToken?.toLowerCase() === wanted,
+      );
+    }
+
     const scoredResults = results.map((listing) => ({
       listingId: listing.listingId,
       listing,
-      score: 1 - listing.metrics.disputeRate,
+      score: 1 - listing.metrics.disputeLossRate,
       relevanceScore: 1,
       trustScore: listing.metrics.acceptRate,
       economicsScore: 0.5,
@@ -90,6 +105,9 @@ export class MockApiClient implements ApiClient {
       status: 'OPEN',
       taskURI: draft.taskURI,
       proposedUnits: draft.proposedUnits,
+      paymentToken: listing.pricing.paymentToken,
+      symbol: listing.pricing.symbol,
+      decimals: listing.pricing.decimals,
       postedAt: Date.now(),
     };
 
@@ -101,22 +119,32 @@ export class MockApiClient implements ApiClient {
     return this.tasks.get(taskId) ?? null;
   }
 
-  private computeFacets(listings: SearchListing[]): {
-    unitType: Record<string, number>;
-    priceBucket: Record<string, number>;
-  } {
+  private computeFacets(listings: SearchListing[]): SearchFacets {
     const unitType: Record<string, number> = {};
     const priceBucket: Record<string, number> = {};
+    const paymentToken: Record<string, number> = {};
 
     for (const listing of listings) {
       unitType[listing.pricing.unitType] =
         (unitType[listing.pricing.unitType] ?? 0) + 1;
 
-      const bucketId = this.getPriceBucketId(listing.pricing.unitPrice);
+      const bucketId = this.getPriceBucketId(this.unitPriceOf(listing));
       priceBucket[bucketId] = (priceBucket[bucketId] ?? 0) + 1;
+
+      const token = listing.pricing.symbol ?? listing.pricing.paymentToken;
+      if (token !== undefined) {
+        paymentToken[token] = (paymentToken[token] ?? 0) + 1;
+      }
     }
 
-    return { unitType, priceBucket };
+    return { unitType, priceBucket, paymentToken };
+  }
+
+  private unitPriceOf(listing: SearchListing): number {
+    return tokenAmountToNumber(
+      listing.pricing.unitPrice,
+      listing.pricing.decimals ?? DEFAULT_TOKEN_DECIMALS,
+    );
   }
 
   private getPriceBucketId(unitPrice: number): string {
@@ -137,6 +165,18 @@ export class MockApiClient implements ApiClient {
   }
 }
 
+const DAI = {
+  paymentToken: '0x6b175474e89094c44da98b954eedeac495271d0f',
+  symbol: 'DAI',
+  decimals: 18,
+};
+
+const USDC = {
+  paymentToken: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+  symbol: 'USDC',
+  decimals: 6,
+};
+
 const mockTasks: Task[] = [
   {
     taskId: 1,
@@ -146,6 +186,7 @@ const mockTasks: Task[] = [
     status: 'OPEN',
     taskURI: 'ipfs://task1',
     proposedUnits: 50,
+    ...DAI,
     postedAt: Date.now() - 100000,
   },
   {
@@ -156,8 +197,9 @@ const mockTasks: Task[] = [
     status: 'QUOTED',
     taskURI: 'ipfs://task2',
     proposedUnits: 30,
+    ...DAI,
     quotedUnits: 30,
-    quotedTotalPrice: 400,
+    quotedTotalPrice: parseTokenAmount('400', DAI.decimals),
     quoteExpiry: Date.now() + 3600000,
     postedAt: Date.now() - 200000,
   },
@@ -169,10 +211,11 @@ const mockTasks: Task[] = [
     status: 'ACTIVE',
     taskURI: 'ipfs://task3',
     proposedUnits: 20,
+    ...DAI,
     quotedUnits: 20,
-    quotedTotalPrice: 300,
+    quotedTotalPrice: parseTokenAmount('300', DAI.decimals),
     quoteExpiry: Date.now() - 10000,
-    fundedAmount: 300,
+    fundedAmount: parseTokenAmount('300', DAI.decimals),
     postedAt: Date.now() - 300000,
     acceptedAt: Date.now() - 100000,
   },
@@ -184,9 +227,10 @@ const mockTasks: Task[] = [
     status: 'SUBMITTED',
     taskURI: 'ipfs://task4',
     proposedUnits: 25,
+    ...DAI,
     quotedUnits: 25,
-    quotedTotalPrice: 350,
-    fundedAmount: 350,
+    quotedTotalPrice: parseTokenAmount('350', DAI.decimals),
+    fundedAmount: parseTokenAmount('350', DAI.decimals),
     artifactURI: 'ipfs://artifact4',
     artifactHash: '0xabc123',
     postedAt: Date.now() - 500000,
@@ -207,15 +251,17 @@ export const mockApiClient = new MockApiClient(
         tags: ['code-review', 'security', 'performance'],
       },
       pricing: {
+        ...DAI,
         unitType: 'LOC',
-        unitPrice: 10,
-        basePrice: 100,
+        unitPrice: parseTokenAmount('10', DAI.decimals),
+        basePrice: parseTokenAmount('100', DAI.decimals),
         minUnits: 10,
         maxUnits: 1000,
       },
       policy: {
         challengeWindowSec: 86400,
         postDisputeWindowSec: 604800,
+        deliveryWindowSec: 172800,
         sellerBondBps: 100,
       },
       metrics: {
@@ -227,11 +273,28 @@ export const mockApiClient = new MockApiClient(
         settledCount: 43,
         autoReleaseCount: 5,
         cancelCount: 5,
+        buyerCancelCount: 5,
+        sellerCancelCount: 0,
+        nonDeliveryCount: 0,
+        postDisputeTimeoutCount: 0,
         acceptRate: 0.9,
         disputeRate: 0.04,
         cancelRate: 0.1,
+        nonDeliveryRate: 0,
         silentAutoReleaseFrequency: 0.12,
         avgTimeToSubmitSec: 3600,
+        p50TimeToQuoteSec: 600,
+        p90TimeToQuoteSec: 1800,
+        p50TimeToSubmitSec: 3600,
+        p90TimeToSubmitSec: 10800,
+        p50TimeToSettleSec: 3600,
+        p90TimeToSettleSec: 86400,
+        sellerWinCount: 0,
+        buyerWinCount: 2,
+        splitCount: 0,
+        disputeCancelCount: 0,
+        disputeLossRate: 0.04,
+        settledVolume: '0',
       },
       curation: {
         updatedAt: Date.now(),
@@ -261,15 +324,17 @@ export const mockApiClient = new MockApiClient(
         tags: ['data', 'processing', 'transformation'],
       },
       pricing: {
+        ...USDC,
         unitType: 'MB',
-        unitPrice: 0.5,
-        basePrice: 50,
+        unitPrice: parseTokenAmount('0.5', USDC.decimals),
+        basePrice: parseTokenAmount('50', USDC.decimals),
         minUnits: 100,
         maxUnits: 10000,
       },
       policy: {
         challengeWindowSec: 43200,
         postDisputeWindowSec: 0,
+        deliveryWindowSec: 172800,
         sellerBondBps: 50,
       },
       metrics: {
@@ -281,11 +346,28 @@ export const mockApiClient = new MockApiClient(
         settledCount: 27,
         autoReleaseCount: 3,
         cancelCount: 2,
+        buyerCancelCount: 2,
+        sellerCancelCount: 0,
+        nonDeliveryCount: 0,
+        postDisputeTimeoutCount: 0,
         acceptRate: 0.93,
         disputeRate: 0.04,
         cancelRate: 0.07,
+        nonDeliveryRate: 0,
         silentAutoReleaseFrequency: 0.11,
         avgTimeToSubmitSec: 1800,
+        p50TimeToQuoteSec: 600,
+        p90TimeToQuoteSec: 1800,
+        p50TimeToSubmitSec: 1800,
+        p90TimeToSubmitSec: 5400,
+        p50TimeToSettleSec: 3600,
+        p90TimeToSettleSec: 86400,
+        sellerWinCount: 0,
+        buyerWinCount: 1,
+        splitCount: 0,
+        disputeCancelCount: 0,
+        disputeLossRate: 0.04,
+        settledVolume: '0',
       },
       curation: {
         updatedAt: Date.now(),
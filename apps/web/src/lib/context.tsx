@@ -5,9 +5,13 @@ import {
   useContext,
   useState,
   useCallback,
+  useMemo,
   ReactNode,
 } from 'react';
+import { mockApiClient } from './api-client';
+import { HttpApiClient } from './http-api-client';
 import type {
+  ApiClient,
   SearchQuery,
   SearchResult,
   SearchFacets,
@@ -15,6 +19,42 @@ import type {
   TaskDraft,
 } from './models';
 
+const ApiClientContext = createContext<ApiClient | null>(null);
+
+/**
+ * Supplies the `ApiClient` pages fetch through: `client` when given (tests
+ * pass a `MockApiClient`), else an `HttpApiClient` for `baseUrl`, else the
+ * built-in mock data.
+ */
+export function ApiClientProvider({
+  client,
+  baseUrl,
+  children,
+}: {
+  client?: ApiClient;
+  baseUrl?: string;
+  children: ReactNode;
+}) {
+  const value = useMemo(
+    () => client ?? (baseUrl ? new HttpApiClient({ baseUrl }) : mockApiClient),
+    [client, baseUrl],
+  );
+
+  return (
+    <ApiClientContext.Provider value={value}>
+      {children}
+    </ApiClientContext.Provider>
+  );
+}
+
+export function useApiClient() {
+  const context = useContext(ApiClientContext);
+  if (!context) {
+    throw new Error('useApiClient must be used within an ApiClientProvider');
+  }
+  return context;
+}
+
 type SearchState = {
   query: SearchQuery;
   results: SearchResult[];
@@ -33,6 +73,7 @@ export function SearchProvider({ children }: { children: ReactNode }) {
   const [facets, setFacets] = useState<SearchFacets>({
     unitType: {},
     priceBucket: {},
+    paymentToken: {},
   });
   const [isLoading, setLoading] = useState(false);
 
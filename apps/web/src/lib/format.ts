@@ -0,0 +1,24 @@
+import type { TokenAmount } from '@moes/shared';
+import { DEFAULT_TOKEN_DECIMALS, formatTokenAmount } from '@moes/shared';
+
+/** The parts of listing pricing or a task that say how to show an amount. */
+export type PriceToken = {
+  symbol?: string;
+  decimals?: number;
+};
+
+/**
+ * Formats a base-unit amount for display, trimmed to six fraction digits and
+ * followed by the token symbol when known, e.g. "12.5 USDC".
+ */
+export function formatPrice(
+  amount: TokenAmount,
+  token: PriceToken = {},
+): string {
+  const formatted = formatTokenAmount(
+    amount,
+    token.decimals ?? DEFAULT_TOKEN_DECIMALS,
+    { maxFractionDigits: 6 },
+  );
+  return token.symbol ? `${formatted} ${token.symbol}` : formatted;
+}
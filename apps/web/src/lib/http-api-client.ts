@@ -0,0 +1,180 @@
+import type {
+  ApiClient,
+  SearchListing,
+  SearchQuery,
+  SearchResponse,
+  Task,
+  TaskDraft,
+} from './models';
+
+/** Any failed request; `status` is null when no response arrived. */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | null,
+    readonly code: string | null = null,
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string, code: string | null = null) {
+    super(message, 404, code);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(message: string, status: number, code: string | null = null) {
+    super(message, status, code);
+    this.name = 'ServerError';
+  }
+}
+
+/** The request never got a response: connection failure or timeout. */
+export class NetworkError extends ApiError {
+  constructor(
+    message: string,
+    readonly timedOut = false,
+  ) {
+    super(message, null);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The API cannot do this at all, so no request was sent. Tasks are posted
+ * on-chain through `TaskMarket.postTask`; the API only reads them back.
+ */
+export class UnsupportedOperationError extends ApiError {
+  constructor(message: string) {
+    super(message, null, 'UNSUPPORTED');
+    this.name = 'UnsupportedOperationError';
+  }
+}
+
+export type HttpApiClientOptions = {
+  /** Root of the indexer read API, e.g. `https://api.example.com`. */
+  baseUrl: string;
+  /** Per attempt. Defaults to 10 seconds. */
+  timeoutMs?: number;
+  /** Extra attempts after a network or 5xx failure. Defaults to 2. */
+  maxRetries?: number;
+  /** Wait before the first retry; doubles on each one after. */
+  retryDelayMs?: number;
+  fetch?: typeof fetch;
+};
+
+type ErrorBody = { error?: { code?: string; message?: string } };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * `ApiClient` backed by the indexer HTTP API, which is read-only. Reads are
+ * retried with exponential backoff; `createTask` always rejects.
+ */
+export class HttpApiClient implements ApiClient {
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly maxRetries: number;
+  private readonly retryDelayMs: number;
+  private readonly fetch: typeof fetch;
+
+  constructor(options: HttpApiClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+    this.maxRetries = options.maxRetries ?? 2;
+    this.retryDelayMs = options.retryDelayMs ?? 250;
+    this.fetch = options.fetch ?? ((...args) => fetch(...args));
+  }
+
+  async search(query: SearchQuery): Promise<SearchResponse> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value) params.set(key, value);
+    }
+    const search = params.toString();
+    return this.request<SearchResponse>(
+      search ? `/search?${search}` : '/search',
+    );
+  }
+
+  async getListing(listingId: number): Promise<SearchListing | null> {
+    return this.orNull(this.request<SearchListing>(`/listings/${listingId}`));
+  }
+
+  async createTask(draft: TaskDraft): Promise<Task> {
+    throw new UnsupportedOperationError(
+      `Cannot create a task for listing ${draft.listingId}: the API is read-only and tasks are posted on-chain`,
+    );
+  }
+
+  async getTask(taskId: number): Promise<Task | null> {
+    return this.orNull(this.request<Task>(`/tasks/${taskId}`));
+  }
+
+  private async orNull<T>(pending: Promise<T>): Promise<T | null> {
+    try {
+      return await pending;
+    } catch (error) {
+      if (error instanceof NotFoundError) return null;
+      throw error;
+    }
+  }
+
+  private async request<T>(path: string): Promise<T> {
+    for (let attempt = 0; ; attempt += 1) {
+      try {
+        return await this.attempt<T>(path);
+      } catch (error) {
+        const retryable =
+          error instanceof NetworkError || error instanceof ServerError;
+        if (!retryable || attempt >= this.maxRetries) throw error;
+        await sleep(this.retryDelayMs * 2 ** attempt);
+      }
+    }
+  }
+
+  private async attempt<T>(path: string): Promise<T> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    let response: Response;
+    try {
+      response = await this.fetch(`${this.baseUrl}${path}`, {
+        headers: { accept: 'application/json' },
+        signal: controller.signal,
+      });
+    } catch (error) {
+      throw controller.signal.aborted
+        ? new NetworkError(`${path} timed out after ${this.timeoutMs}ms`, true)
+        : new NetworkError(
+            `${path} failed: ${error instanceof Error ? error.message : error}`,
+          );
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (response.ok) {
+      try {
+        return (await response.json()) as T;
+      } catch (error) {
+        throw new ApiError(
+          `${path} returned a body that is not JSON: ${error instanceof Error ? error.message : error}`,
+          response.status,
+        );
+      }
+    }
+
+    const body = (await response.json().catch(() => ({}))) as ErrorBody;
+    const message =
+      body.error?.message ?? `${path} failed with status ${response.status}`;
+    const code = body.error?.code ?? null;
+    if (response.status === 404) throw new NotFoundError(message, code);
+    if (response.status >= 500) {
+      throw new ServerError(message, response.status, code);
+    }
+    throw new ApiError(message, response.status, code);
+  }
+}
@@ -1,10 +1,19 @@
 import type { ListingMetadata } from '@moes/curation';
 import type { AgentMetrics, ListingCuration } from '@moes/indexer';
+import type { TokenAmount } from '@moes/shared';
 
 export type ListingPricing = {
   unitType: string;
-  unitPrice: number;
-  basePrice: number;
+  unitPrice: TokenAmount;
+  basePrice: TokenAmount;
+  /** Address of the ERC-20 the listing is priced in. */
+  paymentToken?: string;
+  /** Payment token symbol, when the API knows the token. */
+  symbol?: string;
+  /** Decimals of the payment token; defaults to `DEFAULT_TOKEN_DECIMALS`. */
+  decimals?: number;
+  /** Value of one whole token in the API's reference currency. */
+  referencePrice?: number;
   minUnits: number;
   maxUnits: number;
 };
@@ -12,6 +21,11 @@ export type ListingPricing = {
 export type ListingPolicy = {
   challengeWindowSec: number;
   postDisputeWindowSec: number;
+  /**
+   * How long the seller has to deliver once the buyer accepts the quote.
+   * Null for listings indexed before the window was recorded.
+   */
+  deliveryWindowSec: number | null;
   sellerBondBps: number;
 };
 
@@ -37,6 +51,8 @@ export type SearchResult = {
 export type SearchFacets = {
   unitType: Record<string, number>;
   priceBucket: Record<string, number>;
+  /** Keyed by symbol, or by address for tokens the API does not know. */
+  paymentToken: Record<string, number>;
 };
 
 export type SearchResponse = {
@@ -48,6 +64,8 @@ export type SearchQuery = {
   text?: string;
   unitType?: string;
   priceBucket?: string;
+  /** Token symbol or address. */
+  paymentToken?: string;
 };
 
 export type TaskDraft = {
@@ -73,9 +91,13 @@ export type Task = {
   taskURI?: string;
   proposedUnits: number;
   quotedUnits?: number;
-  quotedTotalPrice?: number;
+  quotedTotalPrice?: TokenAmount;
   quoteExpiry?: number;
-  fundedAmount?: number;
+  fundedAmount?: TokenAmount;
+  /** The listing's payment token, which the amounts above are in. */
+  paymentToken?: string;
+  symbol?: string;
+  decimals?: number;
   artifactURI?: string;
   artifactHash?: string;
   postedAt?: number;
@@ -0,0 +1,10 @@
+/**
+ * Reads a listing or task id from a route or query parameter. Returns null
+ * for anything but a positive integer, so pages can show "not found" without
+ * asking the API for `/listings/NaN`.
+ */
+export function parseId(raw: string | null | undefined): number | null {
+  if (!raw || !/^[1-9]\d*$/.test(raw)) return null;
+  const id = Number(raw);
+  return Number.isSafeInteger(id) ? id : null;
+}
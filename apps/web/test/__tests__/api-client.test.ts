@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
+import { parseTokenAmount } from '@moes/shared';
 import { MockApiClient } from '../../src/lib/api-client';
 import type { SearchListing } from '../../src/lib/models';
 
@@ -17,8 +18,8 @@ describe('MockApiClient', () => {
         },
         pricing: {
           unitType: 'LOC',
-          unitPrice: 10,
-          basePrice: 100,
+          unitPrice: parseTokenAmount('10', 18),
+          basePrice: parseTokenAmount('100', 18),
           minUnits: 1,
           maxUnits: 100,
         },
@@ -31,11 +32,28 @@ describe('MockApiClient', () => {
           settledCount: 8,
           autoReleaseCount: 0,
           cancelCount: 2,
+          buyerCancelCount: 2,
+          sellerCancelCount: 0,
+          nonDeliveryCount: 0,
+          postDisputeTimeoutCount: 0,
           acceptRate: 0.8,
           disputeRate: 0,
           cancelRate: 0.2,
+          nonDeliveryRate: 0,
           silentAutoReleaseFrequency: 0,
           avgTimeToSubmitSec: 3600,
+          p50TimeToQuoteSec: 600,
+          p90TimeToQuoteSec: 1800,
+          p50TimeToSubmitSec: 3600,
+          p90TimeToSubmitSec: 10800,
+          p50TimeToSettleSec: 3600,
+          p90TimeToSettleSec: 86400,
+          sellerWinCount: 0,
+          buyerWinCount: 0,
+          splitCount: 0,
+          disputeCancelCount: 0,
+          disputeLossRate: 0,
+          settledVolume: '0',
         },
       },
     ];
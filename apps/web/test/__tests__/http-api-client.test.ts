@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type * as http from 'node:http';
+import { createApiServer } from '@moes/api';
+import { Indexer } from '@moes/indexer';
+import {
+  ApiError,
+  HttpApiClient,
+  NetworkError,
+  NotFoundError,
+  ServerError,
+  UnsupportedOperationError,
+} from '../../src/lib/http-api-client';
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+
+const errorBody = (code: string, message: string) => ({
+  error: { code, message },
+});
+
+const clientWith = (fetch: typeof globalThis.fetch) =>
+  new HttpApiClient({
+    baseUrl: 'http://api.test/',
+    retryDelayMs: 1,
+    timeoutMs: 50,
+    fetch,
+  });
+
+describe('HttpApiClient', () => {
+  it('sends search filters as query parameters', async () => {
+    const fetch = vi.fn(async () =>
+      json(200, {
+        results: [],
+        facets: { unitType: {}, priceBucket: {}, paymentToken: {} },
+      }),
+    );
+    const response = await clientWith(fetch).search({
+      text: 'code review',
+      unitType: 'LOC',
+      priceBucket: undefined,
+    });
+
+    expect(response.results).toEqual([]);
+    expect(fetch).toHaveBeenCalledWith(
+      'http://api.test/search?text=code+review&unitType=LOC',
+      expect.objectContaining({ headers: { accept: 'application/json' } }),
+    );
+  });
+
+  it('returns null for listings and tasks the API does not know', async () => {
+    const client = clientWith(async () =>
+      json(404, errorBody('NOT_FOUND', 'Task 9 not found')),
+    );
+
+    expect(await client.getTask(9)).toBeNull();
+    expect(await client.getListing(9)).toBeNull();
+  });
+
+  it('retries 5xx responses with backoff before giving up', async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(json(503, errorBody('INTERNAL_ERROR', 'busy')))
+      .mockResolvedValueOnce(json(200, { taskId: 1 }));
+    expect(await clientWith(fetch).getTask(1)).toEqual({ taskId: 1 });
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    const failing = vi.fn(async () =>
+      json(500, errorBody('INTERNAL_ERROR', 'Internal server error')),
+    );
+    const error = await clientWith(failing)
+      .getTask(1)
+      .catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(ServerError);
+    expect(error).toMatchObject({ status: 500, code: 'INTERNAL_ERROR' });
+    expect(failing).toHaveBeenCalledTimes(3);
+  });
+
+  it('raises NetworkError for connection failures and timeouts', async () => {
+    const refused = vi.fn(async () => {
+      throw new TypeError('fetch failed');
+    });
+    await expect(clientWith(refused).getTask(1)).rejects.toBeInstanceOf(
+      NetworkError,
+    );
+    expect(refused).toHaveBeenCalledTimes(3);
+
+    const hanging = vi.fn(
+      (_url: RequestInfo | URL, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () =>
+            reject(new DOMException('aborted', 'AbortError')),
+          );
+        }),
+    );
+    await expect(clientWith(hanging).getListing(1)).rejects.toMatchObject({
+      name: 'NetworkError',
+      timedOut: true,
+    });
+  });
+
+  it('raises ApiError for a success response that is not JSON', async () => {
+    const fetch = vi.fn(
+      async () => new Response('<html>proxy login</html>', { status: 200 }),
+    );
+    const error = await clientWith(fetch)
+      .getListing(1)
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 200, code: null });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry client errors', async () => {
+    const fetch = vi.fn(async () =>
+      json(400, errorBody('BAD_REQUEST', 'taskId must be an integer')),
+    );
+    const error = await clientWith(fetch)
+      .getTask(1)
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).not.toBeInstanceOf(NotFoundError);
+    expect(error).toMatchObject({
+      status: 400,
+      code: 'BAD_REQUEST',
+      message: 'taskId must be an integer',
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects task creation without sending a request', async () => {
+    const fetch = vi.fn();
+    const error = await clientWith(fetch)
+      .createTask({ listingId: 1, proposedUnits: 2 })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(UnsupportedOperationError);
+    expect(error).toMatchObject({ status: null, code: 'UNSUPPORTED' });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('HttpApiClient against the API server', () => {
+  let server: http.Server;
+  let client: HttpApiClient;
+  let baseUrl = '';
+
+  beforeEach(async () => {
+    const indexer = new Indexer();
+    indexer.ingest([
+      {
+        type: 'TaskPosted',
+        blockNumber: 1,
+        logIndex: 0,
+        timestamp: 100,
+        taskId: 1,
+        listingId: 1,
+        agentId: 1,
+        buyer: '0xBuyer',
+        taskURI: 'ipfs://task-1',
+        proposedUnits: 2,
+      },
+    ]);
+    server = createApiServer({ indexer, getMetadata: () => null });
+    await new Promise<void>((resolve) => {
+      server.listen(0, '127.0.0.1', () => resolve());
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    client = new HttpApiClient({ baseUrl });
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('reads tasks, while the server has no route to create one', async () => {
+    expect(await client.getTask(1)).toMatchObject({
+      taskId: 1,
+      status: 'OPEN',
+    });
+
+    // No route accepts writes: `/tasks` does not exist and `/tasks/:id` is
+    // read-only.
+    const post = (path: string) =>
+      fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ listingId: 1, proposedUnits: 2 }),
+      });
+    expect((await post('/tasks')).status).toBe(404);
+    expect((await post('/tasks/1')).status).toBe(405);
+    await expect(
+      client.createTask({ listingId: 1, proposedUnits: 2 }),
+    ).rejects.toBeInstanceOf(UnsupportedOperationError);
+  });
+});
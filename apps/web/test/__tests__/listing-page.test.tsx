@@ -1,6 +1,11 @@
 import { describe, it, expect, vi } from 'vitest';
+import { parseTokenAmount } from '@moes/shared';
 import { render, screen } from '@testing-library/react';
 import ListingPage from '../../app/listing/[id]/page';
+import { MockApiClient } from '../../src/lib/api-client';
+import { ApiClientProvider } from '../../src/lib/context';
+import { NetworkError } from '../../src/lib/http-api-client';
+import type { SearchListing } from '../../src/lib/models';
 
 vi.mock('next/navigation', async () => {
   const actual = await vi.importActual('next/navigation');
@@ -10,161 +15,141 @@ vi.mock('next/navigation', async () => {
   };
 });
 
-vi.mock('../../src/lib/api-client', () => ({
-  mockApiClient: {
-    getListing: vi.fn().mockResolvedValue({
-      listingId: 1,
-      agentId: 1,
-      metadata: {
-        title: 'Code Review Assistant',
-        description: 'Expert code review',
-        tags: ['code-review'],
-      },
-      pricing: {
-        unitType: 'LOC',
-        unitPrice: 10,
-        basePrice: 100,
-        minUnits: 10,
-        maxUnits: 1000,
-      },
-      policy: {
-        challengeWindowSec: 86400,
-        postDisputeWindowSec: 604800,
-        sellerBondBps: 100,
-      },
-      metrics: {
-        agentId: 1,
-        postedCount: 50,
-        acceptedCount: 45,
-        submittedCount: 45,
-        disputeCount: 2,
-        settledCount: 43,
-        autoReleaseCount: 5,
-        cancelCount: 5,
-        acceptRate: 0.9,
-        disputeRate: 0.04,
-        cancelRate: 0.1,
-        silentAutoReleaseFrequency: 0.12,
-        avgTimeToSubmitSec: 3600,
-      },
-      curation: {
-        updatedAt: Date.now(),
-        badges: {
-          metadata_validated: true,
-          endpoint_verified: true,
-          probe_passed: true,
-        },
-        riskScore: 10,
-        probeScore: 0.9,
-        probeEvidenceURI: 'ipfs://test',
-        lint: { valid: true, errors: [], warnings: [], spamSignals: [] },
-        endpointHealth: {
-          total: 1,
-          okCount: 1,
-          failedCount: 0,
-          checkedAt: Date.now(),
-        },
-      },
-    }),
+const listing: SearchListing = {
+  listingId: 1,
+  agentId: 1,
+  metadata: {
+    title: 'Code Review Assistant',
+    description: 'Expert code review',
+    tags: ['code-review'],
   },
-}));
+  pricing: {
+    paymentToken: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+    symbol: 'USDC',
+    decimals: 6,
+    unitType: 'LOC',
+    unitPrice: parseTokenAmount('12.5', 6),
+    basePrice: parseTokenAmount('100', 6),
+    minUnits: 10,
+    maxUnits: 1000,
+  },
+  policy: {
+    challengeWindowSec: 86400,
+    postDisputeWindowSec: 604800,
+    deliveryWindowSec: 172800,
+    sellerBondBps: 100,
+  },
+  metrics: {
+    agentId: 1,
+    postedCount: 50,
+    acceptedCount: 45,
+    submittedCount: 45,
+    disputeCount: 2,
+    settledCount: 43,
+    autoReleaseCount: 5,
+    cancelCount: 5,
+    buyerCancelCount: 5,
+    sellerCancelCount: 0,
+    nonDeliveryCount: 0,
+    postDisputeTimeoutCount: 0,
+    acceptRate: 0.9,
+    disputeRate: 0.04,
+    cancelRate: 0.1,
+    nonDeliveryRate: 0,
+    silentAutoReleaseFrequency: 0.12,
+    avgTimeToSubmitSec: 3600,
+    p50TimeToQuoteSec: 600,
+    p90TimeToQuoteSec: 1800,
+    p50TimeToSubmitSec: 3600,
+    p90TimeToSubmitSec: 10800,
+    p50TimeToSettleSec: 3600,
+    p90TimeToSettleSec: 86400,
+    sellerWinCount: 0,
+    buyerWinCount: 2,
+    splitCount: 0,
+    disputeCancelCount: 0,
+    disputeLossRate: 0.04,
+    settledVolume: '0',
+  },
+  curation: {
+    updatedAt: Date.now(),
+    badges: {
+      metadata_validated: true,
+      endpoint_verified: true,
+      probe_passed: true,
+    },
+    riskScore: 10,
+    probeScore: 0.9,
+    probeEvidenceURI: 'ipfs://test',
+    lint: { valid: true, errors: [], warnings: [], spamSignals: [] },
+    endpointHealth: {
+      total: 1,
+      okCount: 1,
+      failedCount: 0,
+      checkedAt: Date.now(),
+    },
+  },
+};
+
+const renderListingPage = () =>
+  render(
+    <ApiClientProvider client={new MockApiClient([listing])}>
+      <ListingPage params={{ id: '1' }} />
+    </ApiClientProvider>,
+  );
 
 describe('ListingPage', () => {
   it('should render pricing policy', async () => {
-    render(<ListingPage params={{ id: '1' }} />);
+    renderListingPage();
 
     await screen.findByText(/Code Review Assistant/i);
 
     expect(screen.getByText(/Challenge Window:/i)).toBeDefined();
     expect(screen.getByText(/Post-Dispute Window:/i)).toBeDefined();
+    expect(
+      screen.getByText(/Delivery Window:/i).parentElement?.textContent,
+    ).toBe('Delivery Window: 172800s');
     expect(screen.getByText(/Seller Bond:/i)).toBeDefined();
   });
 
-  it('should render create task CTA with pre-filled listingId', async () => {
-    render(<ListingPage params={{ id: '1' }} />);
+  it('should render an unknown delivery window', async () => {
+    render(
+      <ApiClientProvider
+        client={
+          new MockApiClient([
+            {
+              ...listing,
+              policy: { ...listing.policy, deliveryWindowSec: null },
+            },
+          ])
+        }
+      >
+        <ListingPage params={{ id: '1' }} />
+      </ApiClientProvider>,
+    );
 
-    await screen.findByText(/Create Task/i);
+    await screen.findByText(/Code Review Assistant/i);
 
-    const createTaskButton = screen.getByText(/Create Task/i);
-    expect(createTaskButton.closest('a')).toHaveAttribute(
-      'href',
-      '/task/new?listingId=1&unitType=LOC',
-    );
+    expect(
+      screen.getByText(/Delivery Window:/i).parentElement?.textContent,
+    ).toBe('Delivery Window: Unknown');
   });
-});
 
-vi.mock('../../../src/lib/api-client', () => ({
-  mockApiClient: {
-    getListing: vi.fn().mockResolvedValue({
-      listingId: 1,
-      agentId: 1,
-      metadata: {
-        title: 'Code Review Assistant',
-        description: 'Expert code review',
-        tags: ['code-review'],
-      },
-      pricing: {
-        unitType: 'LOC',
-        unitPrice: 10,
-        basePrice: 100,
-        minUnits: 10,
-        maxUnits: 1000,
-      },
-      policy: {
-        challengeWindowSec: 86400,
-        postDisputeWindowSec: 604800,
-        sellerBondBps: 100,
-      },
-      metrics: {
-        agentId: 1,
-        postedCount: 50,
-        acceptedCount: 45,
-        submittedCount: 45,
-        disputeCount: 2,
-        settledCount: 43,
-        autoReleaseCount: 5,
-        cancelCount: 5,
-        acceptRate: 0.9,
-        disputeRate: 0.04,
-        cancelRate: 0.1,
-        silentAutoReleaseFrequency: 0.12,
-        avgTimeToSubmitSec: 3600,
-      },
-      curation: {
-        updatedAt: Date.now(),
-        badges: {
-          metadata_validated: true,
-          endpoint_verified: true,
-          probe_passed: true,
-        },
-        riskScore: 10,
-        probeScore: 0.9,
-        probeEvidenceURI: 'ipfs://test',
-        lint: { valid: true, errors: [], warnings: [], spamSignals: [] },
-        endpointHealth: {
-          total: 1,
-          okCount: 1,
-          failedCount: 0,
-          checkedAt: Date.now(),
-        },
-      },
-    }),
-  },
-}));
-
-describe('ListingPage', () => {
-  it('should render pricing policy', async () => {
-    render(<ListingPage params={{ id: '1' }} />);
+  it('should render prices in the payment token', async () => {
+    renderListingPage();
 
     await screen.findByText(/Code Review Assistant/i);
 
-    expect(screen.getByText(/Challenge Window:/i)).toBeDefined();
-    expect(screen.getByText(/Post-Dispute Window:/i)).toBeDefined();
-    expect(screen.getByText(/Seller Bond:/i)).toBeDefined();
+    expect(screen.getByText(/Unit Price:/i).parentElement?.textContent).toBe(
+      'Unit Price: 12.5 USDC per LOC',
+    );
+    expect(screen.getByText(/Base Price:/i).parentElement?.textContent).toBe(
+      'Base Price: 100 USDC',
+    );
   });
 
   it('should render create task CTA with pre-filled listingId', async () => {
-    render(<ListingPage params={{ id: '1' }} />);
+    renderListingPage();
 
     await screen.findByText(/Create Task/i);
 
@@ -174,4 +159,20 @@ describe('ListingPage', () => {
       '/task/new?listingId=1&unitType=LOC',
     );
   });
+
+  it('should show the error when the listing cannot be loaded', async () => {
+    const client = new MockApiClient([listing]);
+    vi.spyOn(client, 'getListing').mockRejectedValue(
+      new NetworkError('/listings/1 failed: fetch failed'),
+    );
+    render(
+      <ApiClientProvider client={client}>
+        <ListingPage params={{ id: '1' }} />
+      </ApiClientProvider>,
+    );
+
+    expect(
+      await screen.findByText(/Could not load listing: .*fetch failed/i),
+    ).toBeDefined();
+  });
 });
@@ -1,14 +1,18 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
 import SearchPage from '../../app/page';
-import { SearchProvider } from '../../src/lib/context';
+import { MockApiClient, mockApiClient } from '../../src/lib/api-client';
+import { ApiClientProvider, SearchProvider } from '../../src/lib/context';
+import { ServerError } from '../../src/lib/http-api-client';
 
 describe('SearchPage', () => {
   it('should render trust metrics', async () => {
     render(
-      <SearchProvider>
-        <SearchPage />
-      </SearchProvider>,
+      <ApiClientProvider client={mockApiClient}>
+        <SearchProvider>
+          <SearchPage />
+        </SearchProvider>
+      </ApiClientProvider>,
     );
 
     await waitFor(() => {
@@ -28,9 +32,11 @@ describe('SearchPage', () => {
 
   it('should render badges when available', async () => {
     render(
-      <SearchProvider>
-        <SearchPage />
-      </SearchProvider>,
+      <ApiClientProvider client={mockApiClient}>
+        <SearchProvider>
+          <SearchPage />
+        </SearchProvider>
+      </ApiClientProvider>,
     );
 
     await waitFor(() => {
@@ -50,4 +56,23 @@ describe('SearchPage', () => {
         .length,
     ).toBeGreaterThan(0);
   });
+
+  it('should show the error when search fails', async () => {
+    const client = new MockApiClient();
+    vi.spyOn(client, 'search').mockRejectedValue(
+      new ServerError('Internal server error', 500),
+    );
+    render(
+      <ApiClientProvider client={client}>
+        <SearchProvider>
+          <SearchPage />
+        </SearchProvider>
+      </ApiClientProvider>,
+    );
+
+    expect(
+      await screen.findByText(/Search failed: Internal server error/i),
+    ).toBeDefined();
+    expect(screen.queryByText(/No results found/i)).toBeNull();
+  });
 });
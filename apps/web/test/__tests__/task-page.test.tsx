@@ -1,25 +1,10 @@
 import { describe, it, expect, vi } from 'vitest';
 import { render, screen } from '@testing-library/react';
 import TaskPage from '../../app/task/[id]/page';
-
-type MockTask = {
-  taskId: number;
-  listingId: number;
-  agentId: number;
-  buyer: string;
-  status: 'OPEN' | 'QUOTED' | 'ACTIVE' | 'SUBMITTED';
-  taskURI: string;
-  proposedUnits: number;
-  postedAt: number;
-  quotedUnits?: number;
-  quotedTotalPrice?: number;
-  quoteExpiry?: number;
-  fundedAmount?: number;
-  acceptedAt?: number;
-  artifactURI?: string;
-  artifactHash?: string;
-  submittedAt?: number;
-};
+import { MockApiClient } from '../../src/lib/api-client';
+import { ApiClientProvider } from '../../src/lib/context';
+import { ServerError } from '../../src/lib/http-api-client';
+import type { Task } from '../../src/lib/models';
 
 vi.mock('next/navigation', async () => {
   const actual = await vi.importActual('next/navigation');
@@ -29,73 +14,73 @@ vi.mock('next/navigation', async () => {
   };
 });
 
-vi.mock('../../src/lib/api-client', () => ({
-  mockApiClient: {
-    getTask: vi.fn((taskId: number) => {
-      const tasks: MockTask[] = [
-        {
-          taskId: 1,
-          listingId: 1,
-          agentId: 1,
-          buyer: '0xbuyer1',
-          status: 'OPEN',
-          taskURI: 'ipfs://task1',
-          proposedUnits: 50,
-          postedAt: Date.now() - 100000,
-        },
-        {
-          taskId: 2,
-          listingId: 1,
-          agentId: 1,
-          buyer: '0xbuyer2',
-          status: 'QUOTED',
-          taskURI: 'ipfs://task2',
-          proposedUnits: 30,
-          quotedUnits: 30,
-          quotedTotalPrice: 400,
-          quoteExpiry: Date.now() + 3600000,
-          postedAt: Date.now() - 200000,
-        },
-        {
-          taskId: 3,
-          listingId: 1,
-          agentId: 1,
-          buyer: '0xbuyer3',
-          status: 'ACTIVE',
-          taskURI: 'ipfs://task3',
-          proposedUnits: 20,
-          quotedUnits: 20,
-          quotedTotalPrice: 300,
-          fundedAmount: 300,
-          postedAt: Date.now() - 300000,
-          acceptedAt: Date.now() - 100000,
-        },
-        {
-          taskId: 4,
-          listingId: 1,
-          agentId: 1,
-          buyer: '0xbuyer4',
-          status: 'SUBMITTED',
-          taskURI: 'ipfs://task4',
-          proposedUnits: 25,
-          quotedUnits: 25,
-          quotedTotalPrice: 350,
-          fundedAmount: 350,
-          artifactURI: 'ipfs://artifact4',
-          artifactHash: '0xabc123',
-          postedAt: Date.now() - 500000,
-          acceptedAt: Date.now() - 400000,
-          submittedAt: Date.now() - 100000,
-        },
-      ];
-      return Promise.resolve(tasks.find((t) => t.taskId === taskId) ?? null);
-    }),
+const tasks: Task[] = [
+  {
+    taskId: 1,
+    listingId: 1,
+    agentId: 1,
+    buyer: '0xbuyer1',
+    status: 'OPEN',
+    taskURI: 'ipfs://task1',
+    proposedUnits: 50,
+    postedAt: Date.now() - 100000,
+  },
+  {
+    taskId: 2,
+    listingId: 1,
+    agentId: 1,
+    buyer: '0xbuyer2',
+    status: 'QUOTED',
+    taskURI: 'ipfs://task2',
+    proposedUnits: 30,
+    quotedUnits: 30,
+    quotedTotalPrice: '400000000000000000000',
+    quoteExpiry: Date.now() + 3600000,
+    postedAt: Date.now() - 200000,
+  },
+  {
+    taskId: 3,
+    listingId: 1,
+    agentId: 1,
+    buyer: '0xbuyer3',
+    status: 'ACTIVE',
+    taskURI: 'ipfs://task3',
+    proposedUnits: 20,
+    quotedUnits: 20,
+    quotedTotalPrice: '300000000000000000000',
+    fundedAmount: '300000000000000000000',
+    postedAt: Date.now() - 300000,
+    acceptedAt: Date.now() - 100000,
   },
-}));
+  {
+    taskId: 4,
+    listingId: 1,
+    agentId: 1,
+    buyer: '0xbuyer4',
+    status: 'SUBMITTED',
+    taskURI: 'ipfs://task4',
+    proposedUnits: 25,
+    quotedUnits: 25,
+    quotedTotalPrice: '350000000000000000000',
+    fundedAmount: '350000000000000000000',
+    artifactURI: 'ipfs://artifact4',
+    artifactHash: '0xabc123',
+    postedAt: Date.now() - 500000,
+    acceptedAt: Date.now() - 400000,
+    submittedAt: Date.now() - 100000,
+  },
+];
+
+const renderTaskPage = (id: string) =>
+  render(
+    <ApiClientProvider client={new MockApiClient([], tasks)}>
+      <TaskPage params={{ id }} />
+    </ApiClientProvider>,
+  );
 
 describe('TaskPage', () => {
   it('should render OPEN task state', async () => {
-    render(<TaskPage params={{ id: '1' }} />);
+    renderTaskPage('1');
 
     expect(await screen.findByText(/Task #1/i)).toBeDefined();
     expect(screen.getAllByText(/OPEN/i).length).toBeGreaterThan(0);
@@ -103,16 +88,17 @@ describe('TaskPage', () => {
   });
 
   it('should render QUOTED task state with countdown', async () => {
-    render(<TaskPage params={{ id: '2' }} />);
+    renderTaskPage('2');
 
     expect(await screen.findByText(/Task #2/i)).toBeDefined();
     expect(screen.getAllByText(/QUOTED/i).length).toBeGreaterThan(0);
     expect(screen.getAllByText(/Quoted Units:/i).length).toBeGreaterThan(0);
     expect(screen.getByText(/Quote Expires In:/i)).toBeDefined();
+    expect(screen.getAllByText('400').length).toBeGreaterThan(0);
   });
 
   it('should render ACTIVE task state with deliverable submission fields', async () => {
-    render(<TaskPage params={{ id: '3' }} />);
+    renderTaskPage('3');
 
     expect(await screen.findByText(/Task #3/i)).toBeDefined();
     expect(screen.getAllByText(/ACTIVE/i).length).toBeGreaterThan(0);
@@ -122,7 +108,7 @@ describe('TaskPage', () => {
   });
 
   it('should render SUBMITTED task state with read-only deliverable fields', async () => {
-    render(<TaskPage params={{ id: '4' }} />);
+    renderTaskPage('4');
 
     expect(await screen.findByText(/Task #4/i)).toBeDefined();
     expect(screen.getAllByText(/SUBMITTED/i).length).toBeGreaterThan(0);
@@ -134,4 +120,33 @@ describe('TaskPage', () => {
     });
     expect(disabledInputs.length).toBeGreaterThan(0);
   });
+
+  it('should show not found for an id that is not a number', async () => {
+    const client = new MockApiClient([], tasks);
+    const getTask = vi.spyOn(client, 'getTask');
+    render(
+      <ApiClientProvider client={client}>
+        <TaskPage params={{ id: 'abc' }} />
+      </ApiClientProvider>,
+    );
+
+    expect(await screen.findByText(/Task not found/i)).toBeDefined();
+    expect(getTask).not.toHaveBeenCalled();
+  });
+
+  it('should show the error when the task cannot be loaded', async () => {
+    const client = new MockApiClient([], tasks);
+    vi.spyOn(client, 'getTask').mockRejectedValue(
+      new ServerError('Internal server error', 500),
+    );
+    render(
+      <ApiClientProvider client={client}>
+        <TaskPage params={{ id: '1' }} />
+      </ApiClientProvider>,
+    );
+
+    expect(
+      await screen.findByText(/Could not load task: Internal server error/i),
+    ).toBeDefined();
+  });
 });
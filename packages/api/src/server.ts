@@ -0,0 +1,442 @@
+import { createHash } from 'node:crypto';
+import * as http from 'node:http';
+import type {
+  AgentMetrics,
+  Indexer,
+  ListingRecord,
+  MetricsOptions,
+  TaskRecord,
+  TokenRegistry,
+} from '@moes/indexer';
+import { MultiIndexer } from '@moes/indexer';
+import type {
+  SearchIndex,
+  SearchListing,
+  SearchOptions,
+  SearchResponse,
+} from '@moes/search';
+import { buildSearchIndex, searchListings } from '@moes/search';
+import type { CompositeId, DeploymentRef, TokenAmount } from '@moes/shared';
+import { formatCompositeId, parseCompositeId } from '@moes/shared';
+
+/** A listing as the web app renders it: search fields plus agent metrics. */
+export type ApiListing = SearchListing & { metrics: AgentMetrics };
+
+export type ApiSearchResponse = Omit<SearchResponse, 'results'> & {
+  results: (SearchResponse['results'][number] & { listing: ApiListing })[];
+};
+
+/** Mirrors `Task` in the web app; fields the task has not reached are left out. */
+export type ApiTask = {
+  taskId: number;
+  /** Set, with `chainId` and `address`, when serving several deployments. */
+  id?: CompositeId;
+  chainId?: number;
+  address?: string;
+  listingId: number;
+  agentId: number;
+  buyer: string;
+  status: TaskRecord['status'];
+  taskURI?: string;
+  proposedUnits: number;
+  quotedUnits?: number;
+  quotedTotalPrice?: TokenAmount;
+  quoteExpiry?: number;
+  fundedAmount?: TokenAmount;
+  /** The listing's payment token, which the amounts above are in. */
+  paymentToken?: string;
+  symbol?: string;
+  decimals?: number;
+  artifactURI?: string;
+  artifactHash?: string;
+  postedAt?: number;
+  acceptedAt?: number;
+  submittedAt?: number;
+  settledAt?: number;
+};
+
+export type ApiErrorCode =
+  | 'BAD_REQUEST'
+  | 'NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED'
+  | 'INTERNAL_ERROR';
+
+/** Body of every non-2xx response. */
+export type ApiErrorBody = {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+  };
+};
+
+export type ApiServerOptions = {
+  /**
+   * A `MultiIndexer` serves several deployments: listings, tasks, disputes
+   * and agents are then addressed by composite ID, e.g.
+   * `/tasks/8453:0xabc…:42`, and search spans every deployment unless
+   * scoped with `chainId` or `address`.
+   */
+  indexer: Indexer | MultiIndexer;
+  /**
+   * Off-chain metadata for a listing, usually fetched from its `listingURI`
+   * during curation. Listings without metadata are not served. `deployment`
+   * is null unless `indexer` is a `MultiIndexer`.
+   */
+  getMetadata: (
+    listing: ListingRecord,
+    deployment: DeploymentRef | null,
+  ) => SearchListing['metadata'] | null;
+  /**
+   * Adds each payment token's symbol, decimals and reference price to
+   * listing pricing and tasks. Tokens missing from it are served by address
+   * alone. The search index is not rebuilt when the registry changes, so
+   * sync it before serving.
+   */
+  tokens?: TokenRegistry;
+  /** Called with errors that turned into a 500 response. */
+  onError?: (error: unknown) => void;
+};
+
+type RouteResult = { status: number; body: unknown };
+
+type Route = {
+  pattern: RegExp;
+  handle: (params: string[], query: URLSearchParams) => RouteResult;
+};
+
+const ok = (body: unknown): RouteResult => ({ status: 200, body });
+
+const fail = (
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+): RouteResult => ({
+  status,
+  body: { error: { code, message } } satisfies ApiErrorBody,
+});
+
+const METRICS_WINDOWS = ['7d', '30d', '90d'] as const;
+
+function parseId(value: string | undefined, label: string) {
+  return value !== undefined &&
+    /^\d+$/.test(value) &&
+    Number.isSafeInteger(+value)
+    ? Number(value)
+    : fail(400, 'BAD_REQUEST', `Invalid ${label}: ${value}`);
+}
+
+function parseNumber(query: URLSearchParams, name: string) {
+  const value = query.get(name);
+  if (value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0
+    ? parsed
+    : fail(400, 'BAD_REQUEST', `Invalid ${name}: ${value}`);
+}
+
+const isFailure = (value: unknown): value is RouteResult =>
+  typeof value === 'object' && value !== null && 'status' in value;
+
+/** An indexer and, when serving several, the deployment it follows. */
+type Source = { indexer: Indexer; deployment: DeploymentRef | null };
+
+const tagged = (source: Source, id: number) =>
+  source.deployment === null
+    ? {}
+    : {
+        id: formatCompositeId(source.deployment, id),
+        chainId: source.deployment.chainId,
+        address: source.deployment.address,
+      };
+
+type TokenFields = Pick<
+  ApiListing['pricing'],
+  'paymentToken' | 'symbol' | 'decimals' | 'referencePrice'
+>;
+
+function toApiTask(
+  source: Source,
+  task: TaskRecord,
+  token: TokenFields,
+): ApiTask | null {
+  // Tasks only seen through later events have no poster details yet.
+  if (
+    task.listingId === null ||
+    task.agentId === null ||
+    task.buyer === null ||
+    task.proposedUnits === null
+  ) {
+    return null;
+  }
+  const optional = {
+    taskURI: task.taskURI,
+    quotedUnits: task.quotedUnits,
+    quotedTotalPrice: task.quotedTotalPrice,
+    quoteExpiry: task.quoteExpiry,
+    fundedAmount: task.fundedAmount,
+    artifactURI: task.artifactURI,
+    artifactHash: task.artifactHash,
+    postedAt: task.postedAt,
+    acceptedAt: task.acceptedAt,
+    submittedAt: task.submittedAt,
+    settledAt: task.settledAt,
+  };
+  return {
+    taskId: task.taskId,
+    ...tagged(source, task.taskId),
+    listingId: task.listingId,
+    agentId: task.agentId,
+    buyer: task.buyer,
+    status: task.status,
+    proposedUnits: task.proposedUnits,
+    ...Object.fromEntries(
+      Object.entries(optional).filter(([, value]) => value !== null),
+    ),
+    paymentToken: token.paymentToken,
+    symbol: token.symbol,
+    decimals: token.decimals,
+  };
+}
+
+/**
+ * Serves read-only JSON views of the indexer and listing search. Every 200
+ * response carries an ETag; requests whose `If-None-Match` matches it get an
+ * empty 304. The search index is rebuilt lazily after the indexer changes.
+ */
+export function createApiServer(options: ApiServerOptions): http.Server {
+  const { indexer, getMetadata, tokens } = options;
+  const sources: Source[] =
+    indexer instanceof MultiIndexer
+      ? indexer.getDeployments().map((deployment) => ({
+          indexer: indexer.getIndexer(deployment) as Indexer,
+          deployment,
+        }))
+      : [{ indexer, deployment: null }];
+  let searchIndex: SearchIndex | null = null;
+  const unsubscribes = sources.map((source) =>
+    source.indexer.subscribe(() => {
+      searchIndex = null;
+    }),
+  );
+
+  // Plain IDs for a single indexer, composite IDs for a `MultiIndexer`.
+  const resolve = (
+    value: string | undefined,
+    label: string,
+  ): { source: Source; id: number } | RouteResult => {
+    if (!(indexer instanceof MultiIndexer)) {
+      const id = parseId(value, label);
+      return isFailure(id) ? id : { source: sources[0] as Source, id };
+    }
+    const parsed = parseCompositeId(value ?? '');
+    if (!parsed) return fail(400, 'BAD_REQUEST', `Invalid ${label}: ${value}`);
+    const source = sources.find(
+      ({ deployment }) =>
+        deployment?.chainId === parsed.chainId &&
+        deployment.address === parsed.address,
+    );
+    return source
+      ? { source, id: parsed.id }
+      : fail(404, 'NOT_FOUND', `Unknown deployment in ${label} ${value}`);
+  };
+
+  const tokenFields = (paymentToken: string | undefined): TokenFields => {
+    if (paymentToken === undefined) return {};
+    const token = tokens?.get(paymentToken);
+    return token
+      ? {
+          paymentToken: token.address,
+          symbol: token.symbol,
+          decimals: token.decimals,
+          referencePrice: token.referencePrice,
+        }
+      : { paymentToken: paymentToken.toLowerCase() };
+  };
+
+  const toApiListing = (
+    source: Source,
+    listing: ListingRecord,
+  ): ApiListing | null => {
+    const metadata = getMetadata(listing, source.deployment);
+    if (!metadata || !listing.pricing) return null;
+    return {
+      listingId: listing.listingId,
+      ...tagged(source, listing.listingId),
+      agentId: listing.agentId,
+      metadata,
+      pricing: {
+        unitType: listing.pricing.unitType,
+        unitPrice: listing.pricing.unitPrice,
+        basePrice: listing.pricing.basePrice,
+        minUnits: listing.pricing.minUnits,
+        maxUnits: listing.pricing.maxUnits,
+        ...tokenFields(listing.pricing.paymentToken),
+      },
+      policy: listing.policy,
+      metrics: source.indexer.getAgentMetrics(listing.agentId),
+      curation: listing.curation,
+    };
+  };
+
+  const getSearchIndex = () => {
+    searchIndex ??= buildSearchIndex(
+      sources.flatMap((source) =>
+        source.indexer
+          .getListings({ active: true })
+          .map((listing) => toApiListing(source, listing))
+          .filter((listing): listing is ApiListing => listing !== null),
+      ),
+    );
+    return searchIndex;
+  };
+
+  const routes: Route[] = [
+    {
+      pattern: /^\/search$/,
+      handle: (_params, query) => {
+        const maxDeliveryWindowSec = parseNumber(query, 'maxDeliveryWindowSec');
+        if (isFailure(maxDeliveryWindowSec)) return maxDeliveryWindowSec;
+        const chainId = parseNumber(query, 'chainId');
+        if (isFailure(chainId)) return chainId;
+        const search: SearchOptions = {
+          text: query.get('text') ?? undefined,
+          unitType: query.get('unitType') || undefined,
+          priceBucket: query.get('priceBucket') || undefined,
+          maxDeliveryWindowSec,
+          chainId,
+          address: query.get('address') || undefined,
+          paymentToken: query.get('paymentToken') || undefined,
+        };
+        return ok(searchListings(getSearchIndex(), search));
+      },
+    },
+    {
+      pattern: /^\/listings\/([^/]+)$/,
+      handle: ([rawId]) => {
+        const resolved = resolve(rawId, 'listing id');
+        if (isFailure(resolved)) return resolved;
+        const { source, id } = resolved;
+        const [record] = source.indexer.getListings({ listingIds: [id] });
+        const listing = record ? toApiListing(source, record) : null;
+        return listing
+          ? ok(listing)
+          : fail(404, 'NOT_FOUND', `Listing ${rawId} not found`);
+      },
+    },
+    {
+      pattern: /^\/tasks\/([^/]+)$/,
+      handle: ([rawId]) => {
+        const resolved = resolve(rawId, 'task id');
+        if (isFailure(resolved)) return resolved;
+        const { source, id } = resolved;
+        const record = source.indexer.getTask(id);
+        const [listing] =
+          record?.listingId == null
+            ? []
+            : source.indexer.getListings({ listingIds: [record.listingId] });
+        const task = record
+          ? toApiTask(
+              source,
+              record,
+              tokenFields(listing?.pricing?.paymentToken),
+            )
+          : null;
+        return task
+          ? ok(task)
+          : fail(404, 'NOT_FOUND', `Task ${rawId} not found`);
+      },
+    },
+    {
+      pattern: /^\/agents\/([^/]+)\/metrics$/,
+      handle: ([rawId], query) => {
+        const resolved = resolve(rawId, 'agent id');
+        if (isFailure(resolved)) return resolved;
+        const { source, id } = resolved;
+        const window = query.get('window');
+        if (
+          window !== null &&
+          !(METRICS_WINDOWS as readonly string[]).includes(window)
+        ) {
+          return fail(400, 'BAD_REQUEST', `Invalid window: ${window}`);
+        }
+        const halfLifeSec = parseNumber(query, 'halfLifeSec');
+        if (isFailure(halfLifeSec)) return halfLifeSec;
+        const now = parseNumber(query, 'now');
+        if (isFailure(now)) return now;
+        const metricsOptions: MetricsOptions = {
+          window: (window as MetricsOptions['window']) ?? undefined,
+          halfLifeSec,
+          now,
+        };
+        return ok({
+          ...source.indexer.getAgentMetrics(id, metricsOptions),
+          ...tagged(source, id),
+        });
+      },
+    },
+    {
+      pattern: /^\/disputes\/([^/]+)$/,
+      handle: ([rawId]) => {
+        const resolved = resolve(rawId, 'task id');
+        if (isFailure(resolved)) return resolved;
+        const { source, id } = resolved;
+        const dispute = source.indexer.getDispute(id);
+        return dispute
+          ? ok({ ...dispute, ...tagged(source, id) })
+          : fail(404, 'NOT_FOUND', `No dispute for task ${rawId}`);
+      },
+    },
+  ];
+
+  const route = (req: http.IncomingMessage): RouteResult => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    for (const { pattern, handle } of routes) {
+      const match = pattern.exec(url.pathname);
+      if (!match) continue;
+      if (req.method !== 'GET' && req.method !== 'HEAD') {
+        return fail(
+          405,
+          'METHOD_NOT_ALLOWED',
+          `${req.method} is not supported on ${url.pathname}`,
+        );
+      }
+      return handle(match.slice(1), url.searchParams);
+    }
+    return fail(404, 'NOT_FOUND', `No route for ${url.pathname}`);
+  };
+
+  const server = http.createServer((req, res) => {
+    let result: RouteResult;
+    try {
+      result = route(req);
+    } catch (error) {
+      options.onError?.(error);
+      result = fail(500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+
+    const body = JSON.stringify(result.body);
+    res.setHeader('content-type', 'application/json; charset=utf-8');
+    if (result.status === 405) res.setHeader('allow', 'GET, HEAD');
+    if (result.status === 200) {
+      const etag = `"${createHash('sha1').update(body).digest('base64url')}"`;
+      res.setHeader('etag', etag);
+      res.setHeader('cache-control', 'no-cache');
+      const ifNoneMatch = req.headers['if-none-match'];
+      if (
+        ifNoneMatch !== undefined &&
+        ifNoneMatch.split(',').some((tag) => tag.trim() === etag)
+      ) {
+        res.statusCode = 304;
+        res.end();
+        return;
+      }
+    }
+    res.statusCode = result.status;
+    res.setHeader('content-length', Buffer.byteLength(body));
+    res.end(req.method === 'HEAD' ? undefined : body);
+  });
+  server.on('close', () =>
+    unsubscribes.forEach((unsubscribe) => unsubscribe()),
+  );
+  return server;
+}
@@ -0,0 +1,347 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type * as http from 'node:http';
+import type { IndexerEvent, ListingCreatedEvent } from '@moes/indexer';
+import { Indexer, MultiIndexer, TokenRegistry } from '@moes/indexer';
+import { createApiServer } from '../src/server';
+
+const listing = (
+  listingId: number,
+  blockNumber: number,
+): ListingCreatedEvent => ({
+  type: 'ListingCreated',
+  blockNumber,
+  logIndex: 0,
+  timestamp: blockNumber * 10,
+  listingId,
+  agentId: 1,
+  listingURI: `ipfs://listing-${listingId}`,
+  pricing: {
+    paymentToken: '0xToken',
+    basePrice: '100',
+    unitType: 'LOC',
+    unitPrice: '10',
+    minUnits: 1,
+    maxUnits: 100,
+    quoteRequired: false,
+  },
+  policy: {
+    challengeWindowSec: 3600,
+    postDisputeWindowSec: 7200,
+    deliveryWindowSec: 86400,
+    sellerBondBps: 0,
+  },
+  active: true,
+});
+
+const events: IndexerEvent[] = [
+  listing(1, 1),
+  {
+    type: 'TaskPosted',
+    blockNumber: 2,
+    logIndex: 0,
+    timestamp: 100,
+    taskId: 1,
+    listingId: 1,
+    agentId: 1,
+    buyer: '0xBuyer',
+    taskURI: 'ipfs://task-1',
+    proposedUnits: 10,
+  },
+  {
+    type: 'TaskAccepted',
+    blockNumber: 2,
+    logIndex: 1,
+    timestamp: 120,
+    taskId: 1,
+  },
+  {
+    type: 'TaskFunded',
+    blockNumber: 2,
+    logIndex: 2,
+    timestamp: 130,
+    taskId: 1,
+    amount: '200',
+  },
+  {
+    type: 'QuoteAccepted',
+    blockNumber: 2,
+    logIndex: 3,
+    timestamp: 140,
+    taskId: 1,
+  },
+  {
+    type: 'DeliverableSubmitted',
+    blockNumber: 3,
+    logIndex: 0,
+    timestamp: 200,
+    taskId: 1,
+    artifactURI: 'ipfs://artifact-1',
+    artifactHash: '0xhash1',
+  },
+  {
+    type: 'DisputeOpened',
+    blockNumber: 3,
+    logIndex: 1,
+    timestamp: 210,
+    taskId: 1,
+    buyer: '0xBuyer',
+    disputeURI: 'ipfs://dispute-1',
+  },
+];
+
+const metadata = {
+  1: { title: 'Code review', description: 'Reviews pull requests', tags: [] },
+  2: { title: 'Translation', description: 'Translates docs', tags: [] },
+} as Record<number, { title: string; description: string; tags: string[] }>;
+
+describe('createApiServer', () => {
+  let indexer: Indexer;
+  let server: http.Server;
+  let baseUrl = '';
+
+  beforeEach(async () => {
+    indexer = new Indexer();
+    indexer.ingest(events);
+    server = createApiServer({
+      indexer,
+      getMetadata: (record) => metadata[record.listingId] ?? null,
+    });
+    await new Promise<void>((resolve) => {
+      server.listen(0, '127.0.0.1', () => resolve());
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('serves listings, tasks, disputes and agent metrics', async () => {
+    const listingResponse = await fetch(`${baseUrl}/listings/1`);
+    expect(listingResponse.status).toBe(200);
+    expect(await listingResponse.json()).toMatchObject({
+      listingId: 1,
+      agentId: 1,
+      metadata: { title: 'Code review' },
+      pricing: { unitType: 'LOC', unitPrice: '10', basePrice: '100' },
+      policy: { deliveryWindowSec: 86400 },
+      metrics: { agentId: 1, postedCount: 1, disputeCount: 1 },
+    });
+
+    const task = await (await fetch(`${baseUrl}/tasks/1`)).json();
+    expect(task).toEqual({
+      taskId: 1,
+      listingId: 1,
+      agentId: 1,
+      buyer: '0xBuyer',
+      status: 'DISPUTED',
+      taskURI: 'ipfs://task-1',
+      proposedUnits: 10,
+      quotedUnits: 10,
+      quotedTotalPrice: '200',
+      fundedAmount: '200',
+      paymentToken: '0xtoken',
+      artifactURI: 'ipfs://artifact-1',
+      artifactHash: '0xhash1',
+      postedAt: 100,
+      acceptedAt: 140,
+      submittedAt: 200,
+    });
+
+    expect(await (await fetch(`${baseUrl}/disputes/1`)).json()).toMatchObject({
+      taskId: 1,
+      disputeURI: 'ipfs://dispute-1',
+      openedAt: 210,
+      outcome: null,
+    });
+
+    const metrics = await (
+      await fetch(`${baseUrl}/agents/1/metrics?window=7d&now=1000`)
+    ).json();
+    expect(metrics).toMatchObject({ agentId: 1, submittedCount: 1 });
+  });
+
+  it('searches listings and picks up newly indexed ones', async () => {
+    const first = await (await fetch(`${baseUrl}/search?text=review`)).json();
+    expect(
+      first.results.map((r: { listingId: number }) => r.listingId),
+    ).toEqual([1]);
+    expect(first.facets.unitType).toEqual({ LOC: 1 });
+
+    indexer.ingest([listing(2, 4)]);
+    const second = await (await fetch(`${baseUrl}/search`)).json();
+    expect(
+      second.results.map((r: { listingId: number }) => r.listingId).sort(),
+    ).toEqual([1, 2]);
+  });
+
+  it('answers a matching If-None-Match with 304 until the data changes', async () => {
+    const first = await fetch(`${baseUrl}/disputes/1`);
+    const etag = first.headers.get('etag') ?? '';
+    expect(etag).toMatch(/^".+"$/);
+
+    const cached = await fetch(`${baseUrl}/disputes/1`, {
+      headers: { 'if-none-match': etag },
+    });
+    expect(cached.status).toBe(304);
+    expect(await cached.text()).toBe('');
+
+    indexer.ingest([
+      {
+        type: 'DisputeResolved',
+        blockNumber: 5,
+        logIndex: 0,
+        timestamp: 300,
+        taskId: 1,
+        resolver: '0xResolver',
+        outcome: 'SELLER_WINS',
+        resolutionURI: 'ipfs://resolution-1',
+      },
+    ]);
+    const refreshed = await fetch(`${baseUrl}/disputes/1`, {
+      headers: { 'if-none-match': etag },
+    });
+    expect(refreshed.status).toBe(200);
+    expect(refreshed.headers.get('etag')).not.toBe(etag);
+    expect(await refreshed.json()).toMatchObject({ outcome: 'SELLER_WINS' });
+  });
+
+  it('reports errors with a consistent JSON body', async () => {
+    const cases: [string, RequestInit, number, string][] = [
+      ['/tasks/9', {}, 404, 'NOT_FOUND'],
+      ['/listings/abc', {}, 400, 'BAD_REQUEST'],
+      ['/agents/1/metrics?window=1y', {}, 400, 'BAD_REQUEST'],
+      ['/search?maxDeliveryWindowSec=-1', {}, 400, 'BAD_REQUEST'],
+      ['/disputes/2', {}, 404, 'NOT_FOUND'],
+      ['/nowhere', {}, 404, 'NOT_FOUND'],
+      ['/tasks/1', { method: 'POST' }, 405, 'METHOD_NOT_ALLOWED'],
+    ];
+    for (const [path, init, status, code] of cases) {
+      const response = await fetch(`${baseUrl}${path}`, init);
+      expect(response.status).toBe(status);
+      expect(response.headers.get('content-type')).toContain(
+        'application/json',
+      );
+      const body = await response.json();
+      expect(body).toEqual({
+        error: { code, message: expect.any(String) },
+      });
+    }
+  });
+
+  it('hides internal failures behind a 500', async () => {
+    const errors: unknown[] = [];
+    const failing = createApiServer({
+      indexer,
+      getMetadata: () => {
+        throw new Error('metadata store offline');
+      },
+      onError: (error) => errors.push(error),
+    });
+    await new Promise<void>((resolve) => {
+      failing.listen(0, '127.0.0.1', () => resolve());
+    });
+    const port = (failing.address() as AddressInfo).port;
+
+    const response = await fetch(`http://127.0.0.1:${port}/listings/1`);
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' },
+    });
+    expect(errors).toHaveLength(1);
+    await new Promise<void>((resolve) => failing.close(() => resolve()));
+  });
+
+  it('addresses several deployments by composite id', async () => {
+    const market = '0x00000000000000000000000000000000000000B2';
+    const mainnet = new Indexer();
+    mainnet.ingest([listing(1, 1), listing(2, 2)]);
+    const deployments = new MultiIndexer([
+      { chainId: 84532, address: market, indexer },
+      { chainId: 8453, address: market, indexer: mainnet },
+    ]);
+    const multi = createApiServer({
+      indexer: deployments,
+      getMetadata: (record) => metadata[record.listingId] ?? null,
+    });
+    await new Promise<void>((resolve) => {
+      multi.listen(0, '127.0.0.1', () => resolve());
+    });
+    const url = `http://127.0.0.1:${(multi.address() as AddressInfo).port}`;
+    const testnetTask = `84532:${market.toLowerCase()}:1`;
+
+    expect(
+      await (await fetch(`${url}/tasks/${testnetTask}`)).json(),
+    ).toMatchObject({
+      id: testnetTask,
+      chainId: 84532,
+      taskId: 1,
+      status: 'DISPUTED',
+    });
+    expect((await fetch(`${url}/tasks/8453:${market}:1`)).status).toBe(404);
+    expect((await fetch(`${url}/tasks/1:${market}:1`)).status).toBe(404);
+    expect((await fetch(`${url}/tasks/1`)).status).toBe(400);
+    expect(
+      await (await fetch(`${url}/disputes/${testnetTask}`)).json(),
+    ).toMatchObject({ id: testnetTask, outcome: null });
+    expect(
+      await (await fetch(`${url}/agents/8453:${market}:1/metrics`)).json(),
+    ).toMatchObject({ agentId: 1, chainId: 8453, postedCount: 0 });
+
+    const everywhere = await (await fetch(`${url}/search`)).json();
+    expect(
+      everywhere.results.map((r: { listing: { id: string } }) => r.listing.id),
+    ).toHaveLength(3);
+    const scoped = await (await fetch(`${url}/search?chainId=8453`)).json();
+    expect(
+      scoped.results
+        .map((r: { listing: { id: string } }) => r.listing.id)
+        .sort(),
+    ).toEqual([
+      `8453:${market.toLowerCase()}:1`,
+      `8453:${market.toLowerCase()}:2`,
+    ]);
+    await new Promise<void>((resolve) => multi.close(() => resolve()));
+  });
+
+  it('describes payment tokens from the token registry', async () => {
+    const usdc = '0x00000000000000000000000000000000000000C1';
+    const usdcListing = listing(2, 4);
+    indexer.ingest([
+      {
+        ...usdcListing,
+        pricing: { ...usdcListing.pricing, paymentToken: usdc },
+      },
+    ]);
+    const tokens = new TokenRegistry([
+      { address: usdc, symbol: 'USDC', decimals: 6, referencePrice: 1 },
+    ]);
+    const priced = createApiServer({
+      indexer,
+      tokens,
+      getMetadata: (record) => metadata[record.listingId] ?? null,
+    });
+    await new Promise<void>((resolve) => {
+      priced.listen(0, '127.0.0.1', () => resolve());
+    });
+    const url = `http://127.0.0.1:${(priced.address() as AddressInfo).port}`;
+
+    expect(await (await fetch(`${url}/listings/2`)).json()).toMatchObject({
+      pricing: {
+        paymentToken: usdc.toLowerCase(),
+        symbol: 'USDC',
+        decimals: 6,
+        referencePrice: 1,
+      },
+    });
+    const response = await (
+      await fetch(`${url}/search?paymentToken=usdc`)
+    ).json();
+    expect(
+      response.results.map((r: { listingId: number }) => r.listingId),
+    ).toEqual([2]);
+    expect(response.facets.paymentToken).toEqual({ USDC: 1, '0xtoken': 1 });
+    await new Promise<void>((resolve) => priced.close(() => resolve()));
+  });
+});
@@ -36,6 +36,7 @@ const listingMetadataById = new Map<
 ]);
 
 const toNumber = (value: bigint | number | string) => Number(value);
+const toAmount = (value: bigint | number | string) => BigInt(value).toString();
 
 const dynamicImport = async <T>(modulePath: string): Promise<T> => {
   const importer = new Function('href', 'return import(href);') as (
@@ -191,9 +192,9 @@ async function main() {
       listingURI: args.listingURI,
       pricing: {
         paymentToken: args.paymentToken,
-        basePrice: toNumber(args.basePrice),
+        basePrice: toAmount(args.basePrice),
         unitType: args.unitType,
-        unitPrice: toNumber(args.unitPrice),
+        unitPrice: toAmount(args.unitPrice),
         minUnits: toNumber(args.minUnits),
         maxUnits: toNumber(args.maxUnits),
         quoteRequired: args.quoteRequired,
@@ -201,6 +202,7 @@ async function main() {
       policy: {
         challengeWindowSec: toNumber(args.challengeWindowSec),
         postDisputeWindowSec: toNumber(args.postDisputeWindowSec),
+        deliveryWindowSec: toNumber(args.deliveryWindowSec),
         sellerBondBps: toNumber(args.sellerBondBps),
       },
       active: args.active,
@@ -255,7 +257,7 @@ async function main() {
       type: 'QuoteProposed',
       taskId: toNumber(args.taskId),
       quotedUnits: toNumber(args.quotedUnits),
-      quotedTotalPrice: toNumber(args.quotedTotalPrice),
+      quotedTotalPrice: toAmount(args.quotedTotalPrice),
       expiry: toNumber(args.expiry),
       ...base,
     });
@@ -285,7 +287,7 @@ async function main() {
     events.push({
       type: 'TaskFunded',
       taskId: toNumber(args.taskId),
-      amount: toNumber(args.amount),
+      amount: toAmount(args.amount),
       ...base,
     });
   }
@@ -330,8 +332,8 @@ async function main() {
     events.push({
       type: 'TaskSettled',
       taskId: toNumber(args.taskId),
-      buyerPayout: toNumber(args.buyerPayout),
-      sellerBondRefund: toNumber(args.sellerBondRefund),
+      buyerPayout: toAmount(args.buyerPayout),
+      sellerBondRefund: toAmount(args.sellerBondRefund),
       ...base,
     });
   }
@@ -358,10 +360,10 @@ async function main() {
       buyer: args.buyer,
       seller: args.seller,
       bondFunder: args.bondFunder,
-      buyerEscrowPayout: toNumber(args.buyerEscrowPayout),
-      buyerBondPayout: toNumber(args.buyerBondPayout),
-      sellerEscrowPayout: toNumber(args.sellerEscrowPayout),
-      sellerBondRefund: toNumber(args.sellerBondRefund),
+      buyerEscrowPayout: toAmount(args.buyerEscrowPayout),
+      buyerBondPayout: toAmount(args.buyerBondPayout),
+      sellerEscrowPayout: toAmount(args.sellerEscrowPayout),
+      sellerBondRefund: toAmount(args.sellerBondRefund),
       path: pathMap[Number(args.path)] ?? 'TIMEOUT',
       ...base,
     });
@@ -397,7 +399,7 @@ async function main() {
       nowMs,
       createdAtMs: listing.createdAt ? listing.createdAt * 1000 : null,
       probeScore: probe.probeScore,
-      disputeRate: metrics.disputeRate,
+      disputeLossRate: metrics.disputeLossRate,
       silentAutoReleaseFrequency: metrics.silentAutoReleaseFrequency,
     });
 
@@ -48,7 +48,11 @@ export type RiskScoreInput = {
   nowMs: number;
   createdAtMs: number | null;
   probeScore: number;
-  disputeRate: number;
+  /**
+   * Share of submitted tasks whose dispute went wholly or partly to the buyer
+   * (`TaskMetrics.disputeLossRate`). Disputes the seller won carry no risk.
+   */
+  disputeLossRate: number;
   silentAutoReleaseFrequency: number;
   newnessWindowDays?: number;
 };
@@ -255,7 +259,7 @@ export function computeCurationBadges(
 
 export function computeRiskScore(input: RiskScoreInput): number {
   const probePenalty = 1 - clamp01(input.probeScore);
-  const disputePenalty = clamp01(input.disputeRate);
+  const disputePenalty = clamp01(input.disputeLossRate);
   const silentPenalty = clamp01(input.silentAutoReleaseFrequency);
   const newnessWindow = input.newnessWindowDays ?? DEFAULT_NEWNESS_WINDOW_DAYS;
 
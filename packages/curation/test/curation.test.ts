@@ -10,6 +10,8 @@ import {
   lintListingMetadata,
   runProbeFixture
 } from "../src/curation";
+import type { IndexerEvent } from "@moes/indexer";
+import { Indexer } from "@moes/indexer";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -117,7 +119,7 @@ describe("curation", () => {
       nowMs: 1000 * 60 * 60 * 24 * 40,
       createdAtMs: 0,
       probeScore: 0.5,
-      disputeRate: 0.2,
+      disputeLossRate: 0.2,
       silentAutoReleaseFrequency: 0.4,
       newnessWindowDays: 30
     });
@@ -125,4 +127,80 @@ describe("curation", () => {
     expect(score).toBeGreaterThan(20);
     expect(score).toBeLessThan(80);
   });
+
+  it("does not raise risk for disputes the seller won", () => {
+    // Agent 1 delivers undisputed; agent 2 wins a dispute, agent 3 loses one.
+    const events = [1, 2, 3].flatMap((agentId): IndexerEvent[] => {
+      const base = { blockNumber: agentId, taskId: agentId };
+      const outcome = agentId === 2 ? "SELLER_WINS" : "BUYER_WINS";
+      return [
+        {
+          type: "TaskPosted",
+          ...base,
+          logIndex: 0,
+          timestamp: 100,
+          listingId: agentId,
+          agentId,
+          buyer: "0xbuyer",
+          taskURI: `ipfs://task-${agentId}`,
+          proposedUnits: 1
+        },
+        {
+          type: "QuoteProposed",
+          ...base,
+          logIndex: 1,
+          timestamp: 110,
+          quotedUnits: 1,
+          quotedTotalPrice: "100",
+          expiry: 0
+        },
+        { type: "QuoteAccepted", ...base, logIndex: 2, timestamp: 120 },
+        {
+          type: "DeliverableSubmitted",
+          ...base,
+          logIndex: 3,
+          timestamp: 200,
+          artifactURI: "ipfs://artifact",
+          artifactHash: "0xhash"
+        },
+        ...(agentId === 1
+          ? []
+          : ([
+              {
+                type: "DisputeOpened",
+                ...base,
+                logIndex: 4,
+                timestamp: 300,
+                buyer: "0xbuyer",
+                disputeURI: "ipfs://dispute"
+              },
+              {
+                type: "DisputeResolved",
+                ...base,
+                logIndex: 5,
+                timestamp: 400,
+                resolver: "0xresolver",
+                outcome,
+                resolutionURI: "ipfs://resolution"
+              }
+            ] as IndexerEvent[]))
+      ];
+    });
+    const indexer = new Indexer();
+    indexer.ingest(events);
+    const riskOf = (agentId: number) => {
+      const metrics = indexer.getAgentMetrics(agentId);
+      return computeRiskScore({
+        nowMs: 1000 * 60 * 60 * 24 * 40,
+        createdAtMs: 0,
+        probeScore: 0.9,
+        disputeLossRate: metrics.disputeLossRate,
+        silentAutoReleaseFrequency: metrics.silentAutoReleaseFrequency
+      });
+    };
+
+    expect(indexer.getAgentMetrics(2).disputeRate).toBe(1);
+    expect(riskOf(2)).toBe(riskOf(1));
+    expect(riskOf(3)).toBeGreaterThan(riskOf(1));
+  });
 });
@@ -0,0 +1,657 @@
+import type { TokenAmount } from '@moes/shared';
+import type { Indexer, IndexerEvent, TaskSettledV2Event } from './indexer';
+
+export type RpcLog = {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  blockHash: string;
+  logIndex: string;
+  transactionHash?: string;
+  removed?: boolean;
+};
+
+export type ContractAddresses = {
+  agentRegistry?: string;
+  listingRegistry?: string;
+  taskMarket?: string;
+  disputeModule?: string;
+};
+
+export type ChainSourceOptions = {
+  rpcUrl: string;
+  addresses: ContractAddresses;
+  fromBlock?: number;
+  /** Last block to index; the source stops there instead of following the head. */
+  toBlock?: number;
+  batchSize?: number;
+  pollIntervalMs?: number;
+  /**
+   * Called with each failed poll under `start`, and with each log that could
+   * not be decoded. Such a log is skipped so later blocks still get indexed.
+   */
+  onError?: (error: unknown) => void;
+};
+
+type ContractKey = keyof ContractAddresses;
+
+type DecodedLog = IndexerEvent extends infer E
+  ? E extends IndexerEvent
+    ? Omit<E, 'blockNumber' | 'logIndex' | 'timestamp'>
+    : never
+  : never;
+
+type LogDecoder = {
+  contract: ContractKey;
+  decode: (topics: string[], data: AbiReader) => DecodedLog;
+};
+
+const SETTLEMENT_PATHS: TaskSettledV2Event['path'][] = [
+  'ACCEPTED',
+  'TIMEOUT',
+  'POST_DISPUTE_TIMEOUT',
+  'DISPUTE_SELLER_WINS',
+  'DISPUTE_BUYER_WINS',
+  'DISPUTE_SPLIT',
+  'DISPUTE_CANCEL',
+];
+
+const DISPUTE_OUTCOMES = [
+  'SELLER_WINS',
+  'BUYER_WINS',
+  'SPLIT',
+  'CANCEL',
+] as const;
+
+// topic0 = keccak256 of the event signature, as emitted by the contracts in
+// packages/contracts/contracts.
+export const EVENT_TOPICS = {
+  AgentRegistered:
+    '0x77284e1a75d149ef26161b755b08a0af1ea0723010e19e79bce5626d693581f8',
+  AgentURIUpdated:
+    '0xe335f4a32c56fb32eb92f5084017a5836fcdc9307d02f49f27dd61f0f6a434a8',
+  Transfer:
+    '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef',
+  ListingCreated:
+    '0x1fcb63c455365055b7b56144c0e95778f0f2564881de25552e14b7f74dbf3f7b',
+  ListingUpdated:
+    '0x89c673d999ebc8ce5b71c67287391e8f745769c11528a7b19a4709e4059897a2',
+  TaskPosted:
+    '0x8d3a30e3561852057fd443ed411e87bb28f1060b9362a8bbc54c3473226fc04a',
+  QuoteProposed:
+    '0xcfac2d148a555a2bdaf0b0ca7587b6adbbac290bf1c04c4fdd916085368b9041',
+  QuoteAccepted:
+    '0xcb5dabd033280bd65c614e3d9f2642181eb14366a70c3a04aab8bfb09696dbcf',
+  TaskFunded:
+    '0x9173a7ae2321b61f50303df6b321c38912ca2a1079fc80645cf01202be566c76',
+  TaskAccepted:
+    '0xb151e78b903fc62654c96f6bd667fc1b7a3230cc2345b2fc441ad60a885e032a',
+  DeliverableSubmitted:
+    '0x54e44868bdd954b3adcac5c4db169a94e6e0dbbf6db6a6f839f4907ffe70e20c',
+  SubmissionAccepted:
+    '0xc06839bcad0f42098a40a244b05a3c106c986ea7d726b4ee618475b858eaefb9',
+  SubmissionDisputed:
+    '0xa31322732033276beb48899da1e6866e664256162867c5bb5543f89413bddd48',
+  SellerBondFunded:
+    '0x03e157917fabbe1d418840c96b6bcc52532d3126409c286c11a4b2713d5afc02',
+  TaskSettled:
+    '0x06748d41c3bbc7ce6edfac1d0ee8396c063bb3cfa1a9df96375e07137a8170d6',
+  TaskSettledV2:
+    '0x2e8bd421caf1f3a743c41b4b9e2f116ba2870d6eb07317c17f0396cfdfba6da2',
+  TaskCancelled:
+    '0xc6eacc3aa5b2aa77b5a826b832a804ca0b71830ec74f9aa57a15edd978c31ed6',
+  TaskCancelledForNonDelivery:
+    '0x87c7ccdb91d7f76967f2d680b8b1d2cdbc575d7d9b95b9d5ecd25f504aad9b1f',
+  SellerCancelledQuote:
+    '0xed63807e8c9bfe6ae68bba5e584328f015a53a95749e849d7c7249ca3a3016cf',
+  PostDisputeTimeoutSettled:
+    '0xea2bb5cca189ee763bd40d6828dee4ca2dc0f4e01db429327936fad3cab6c9ed',
+  DisputeOpened:
+    '0x9b58afa035c5fa58f85c5a54b65bd3562d5aa7679e973bc1404fe25e8babab21',
+  DisputeResolved:
+    '0xa5684034510329ec77340be1fcce2a7d48ba6732a5090134b06976d0396579fe',
+  ResolverUpdated:
+    '0xd8ea402e95478feee1bea3f652c970c98c456281ae29a9987918e9e8b6754bb4',
+} as const;
+
+/** Reads 32-byte words out of ABI-encoded log data or call results. */
+export class AbiReader {
+  private readonly hex: string;
+
+  constructor(data: string) {
+    this.hex = data.startsWith('0x') ? data.slice(2) : data;
+  }
+
+  word(index: number): string {
+    const start = index * 64;
+    const value = this.hex.slice(start, start + 64);
+    if (value.length !== 64) {
+      throw new Error(`ABI data too short for word ${index}`);
+    }
+    return value;
+  }
+
+  uint(index: number): number {
+    return Number(BigInt(`0x${this.word(index)}`));
+  }
+
+  /** Token amounts stay exact; `uint` is only for ids, units and times. */
+  amount(index: number): TokenAmount {
+    return BigInt(`0x${this.word(index)}`).toString();
+  }
+
+  address(index: number): string {
+    return wordToAddress(this.word(index));
+  }
+
+  bool(index: number): boolean {
+    return BigInt(`0x${this.word(index)}`) !== 0n;
+  }
+
+  bytes32(index: number): string {
+    return `0x${this.word(index)}`;
+  }
+
+  /** The dynamic tuple whose offset is stored at `index`. */
+  tuple(index: number): AbiReader {
+    const offset = Number(BigInt(`0x${this.word(index)}`)) * 2;
+    return new AbiReader(this.hex.slice(offset));
+  }
+
+  string(index: number): string {
+    const offset = Number(BigInt(`0x${this.word(index)}`)) * 2;
+    const length = Number(BigInt(`0x${this.hex.slice(offset, offset + 64)}`));
+    const body = this.hex.slice(offset + 64, offset + 64 + length * 2);
+    return Buffer.from(body, 'hex').toString('utf8');
+  }
+}
+
+const wordToAddress = (word: string) =>
+  `0x${word.replace(/^0x/, '').slice(-40)}`.toLowerCase();
+
+const topicToNumber = (topic: string) => Number(BigInt(topic));
+
+export const decodeBytes32String = (value: string) =>
+  Buffer.from(value.replace(/^0x/, ''), 'hex')
+    .toString('utf8')
+    .replace(/\0+$/, '');
+
+const DECODERS: Record<string, LogDecoder> = {
+  [EVENT_TOPICS.AgentRegistered]: {
+    contract: 'agentRegistry',
+    decode: (topics, data) => ({
+      type: 'AgentRegistered',
+      owner: wordToAddress(topics[1]),
+      agentId: topicToNumber(topics[2]),
+      agentURI: data.string(0),
+    }),
+  },
+  [EVENT_TOPICS.AgentURIUpdated]: {
+    contract: 'agentRegistry',
+    decode: (topics, data) => ({
+      type: 'AgentURIUpdated',
+      agentId: topicToNumber(topics[1]),
+      agentURI: data.string(0),
+    }),
+  },
+  [EVENT_TOPICS.Transfer]: {
+    contract: 'agentRegistry',
+    decode: (topics) => ({
+      type: 'Transfer',
+      from: wordToAddress(topics[1]),
+      to: wordToAddress(topics[2]),
+      agentId: topicToNumber(topics[3]),
+    }),
+  },
+  [EVENT_TOPICS.ListingCreated]: {
+    contract: 'listingRegistry',
+    decode: (topics, data) => ({
+      type: 'ListingCreated',
+      listingId: topicToNumber(topics[1]),
+      agentId: topicToNumber(topics[2]),
+      listingURI: data.string(0),
+      pricing: {
+        paymentToken: data.address(1),
+        basePrice: data.amount(2),
+        unitType: decodeBytes32String(data.bytes32(3)),
+        unitPrice: data.amount(4),
+        minUnits: data.uint(5),
+        maxUnits: data.uint(6),
+        quoteRequired: data.bool(7),
+      },
+      policy: {
+        challengeWindowSec: data.uint(8),
+        postDisputeWindowSec: data.uint(9),
+        deliveryWindowSec: data.uint(10),
+        sellerBondBps: data.uint(11),
+      },
+      active: data.bool(12),
+    }),
+  },
+  [EVENT_TOPICS.ListingUpdated]: {
+    contract: 'listingRegistry',
+    decode: (topics, data) => ({
+      type: 'ListingUpdated',
+      listingId: topicToNumber(topics[1]),
+      agentId: topicToNumber(topics[2]),
+      listingURI: data.string(0),
+      active: data.bool(1),
+    }),
+  },
+  [EVENT_TOPICS.TaskPosted]: {
+    contract: 'taskMarket',
+    decode: (topics, data) => ({
+      type: 'TaskPosted',
+      taskId: topicToNumber(topics[1]),
+      listingId: topicToNumber(topics[2]),
+      agentId: topicToNumber(topics[3]),
+      buyer: data.address(0),
+      taskURI: data.string(1),
+      proposedUnits: data.uint(2),
+    }),
+  },
+  [EVENT_TOPICS.QuoteProposed]: {
+    contract: 'taskMarket',
+    decode: (topics, data) => ({
+      type: 'QuoteProposed',
+      taskId: topicToNumber(topics[1]),
+      quotedUnits: data.uint(0),
+      quotedTotalPrice: data.amount(1),
+      expiry: data.uint(2),
+    }),
+  },
+  [EVENT_TOPICS.QuoteAccepted]: {
+    contract: 'taskMarket',
+    decode: (topics) => ({
+      type: 'QuoteAccepted',
+      taskId: topicToNumber(topics[1]),
+    }),
+  },
+  [EVENT_TOPICS.TaskFunded]: {
+    contract: 'taskMarket',
+    decode: (topics, data) => ({
+      type: 'TaskFunded',
+      taskId: topicToNumber(topics[1]),
+      amount: data.amount(0),
+    }),
+  },
+  [EVENT_TOPICS.TaskAccepted]: {
+    contract: 'taskMarket',
+    decode: (topics) => ({
+      type: 'TaskAccepted',
+      taskId: topicToNumber(topics[1]),
+    }),
+  },
+  [EVENT_TOPICS.DeliverableSubmitted]: {
+    contract: 'taskMarket',
+    decode: (topics, data) => ({
+      type: 'DeliverableSubmitted',
+      taskId: topicToNumber(topics[1]),
+      artifactURI: data.string(0),
+      artifactHash: data.bytes32(1),
+    }),
+  },
+  [EVENT_TOPICS.SubmissionAccepted]: {
+    contract: 'taskMarket',
+    decode: (topics) => ({
+      type: 'SubmissionAccepted',
+      taskId: topicToNumber(topics[1]),
+    }),
+  },
+  [EVENT_TOPICS.SubmissionDisputed]: {
+    contract: 'taskMarket',
+    decode: (topics, data) => ({
+      type: 'SubmissionDisputed',
+      taskId: topicToNumber(topics[1]),
+      disputeURI: data.string(0),
+    }),
+  },
+  [EVENT_TOPICS.SellerBondFunded]: {
+    contract: 'taskMarket',
+    decode: (topics, data) => ({
+      type: 'SellerBondFunded',
+      taskId: topicToNumber(topics[1]),
+      amount: data.amount(0),
+    }),
+  },
+  [EVENT_TOPICS.TaskSettled]: {
+    contract: 'taskMarket',
+    decode: (topics, data) => ({
+      type: 'TaskSettled',
+      taskId: topicToNumber(topics[1]),
+      buyerPayout: data.amount(0),
+      sellerBondRefund: data.amount(1),
+    }),
+  },
+  [EVENT_TOPICS.TaskSettledV2]: {
+    contract: 'taskMarket',
+    decode: (topics, data) => {
+      const path = SETTLEMENT_PATHS[data.uint(5)];
+      if (!path) {
+        throw new Error(`Unknown settlement path ${data.uint(5)}`);
+      }
+      return {
+        type: 'TaskSettledV2',
+        taskId: topicToNumber(topics[1]),
+        buyer: wordToAddress(topics[2]),
+        seller: wordToAddress(topics[3]),
+        bondFunder: data.address(0),
+        buyerEscrowPayout: data.amount(1),
+        buyerBondPayout: data.amount(2),
+        sellerEscrowPayout: data.amount(3),
+        sellerBondRefund: data.amount(4),
+        path,
+      };
+    },
+  },
+  [EVENT_TOPICS.TaskCancelled]: {
+    contract: 'taskMarket',
+    decode: (topics) => ({
+      type: 'TaskCancelled',
+      taskId: topicToNumber(topics[1]),
+    }),
+  },
+  [EVENT_TOPICS.TaskCancelledForNonDelivery]: {
+    contract: 'taskMarket',
+    decode: (topics, data) => ({
+      type: 'TaskCancelledForNonDelivery',
+      taskId: topicToNumber(topics[1]),
+      escrowRefund: data.amount(0),
+      sellerBondPenalty: data.amount(1),
+    }),
+  },
+  [EVENT_TOPICS.SellerCancelledQuote]: {
+    contract: 'taskMarket',
+    decode: (topics, data) => ({
+      type: 'SellerCancelledQuote',
+      taskId: topicToNumber(topics[1]),
+      bondRefund: data.amount(0),
+    }),
+  },
+  [EVENT_TOPICS.PostDisputeTimeoutSettled]: {
+    contract: 'taskMarket',
+    decode: (topics, data) => {
+      const outcome = DISPUTE_OUTCOMES[data.uint(1)];
+      if (!outcome) {
+        throw new Error(`Unknown dispute outcome ${data.uint(1)}`);
+      }
+      return {
+        type: 'PostDisputeTimeoutSettled',
+        taskId: topicToNumber(topics[1]),
+        deadline: data.uint(0),
+        outcome,
+      };
+    },
+  },
+  [EVENT_TOPICS.DisputeOpened]: {
+    contract: 'disputeModule',
+    decode: (topics, data) => ({
+      type: 'DisputeOpened',
+      taskId: topicToNumber(topics[1]),
+      buyer: wordToAddress(topics[2]),
+      disputeURI: data.string(0),
+    }),
+  },
+  [EVENT_TOPICS.DisputeResolved]: {
+    contract: 'disputeModule',
+    decode: (topics, data) => {
+      const outcome = DISPUTE_OUTCOMES[data.uint(0)];
+      if (!outcome) {
+        throw new Error(`Unknown dispute outcome ${data.uint(0)}`);
+      }
+      return {
+        type: 'DisputeResolved',
+        taskId: topicToNumber(topics[1]),
+        resolver: wordToAddress(topics[2]),
+        outcome,
+        resolutionURI: data.string(1),
+      };
+    },
+  },
+  [EVENT_TOPICS.ResolverUpdated]: {
+    contract: 'disputeModule',
+    decode: (topics, data) => ({
+      type: 'ResolverUpdated',
+      resolver: wordToAddress(topics[1]),
+      allowed: data.bool(0),
+    }),
+  },
+};
+
+/**
+ * Decodes a raw `eth_getLogs` entry into an indexer event. Returns null for
+ * logs that are not indexed or that were emitted by an unexpected contract,
+ * and throws for an indexed log whose data it cannot read, e.g. an enum value
+ * added after this decoder.
+ */
+export function decodeLog(
+  log: RpcLog,
+  addresses: ContractAddresses,
+  timestamp: number,
+): IndexerEvent | null {
+  const topic0 = log.topics[0]?.toLowerCase();
+  const decoder = topic0 ? DECODERS[topic0] : undefined;
+  if (!decoder) return null;
+  const expected = addresses[decoder.contract];
+  if (!expected || expected.toLowerCase() !== log.address.toLowerCase()) {
+    return null;
+  }
+  const decoded = decoder.decode(log.topics, new AbiReader(log.data));
+  return {
+    ...decoded,
+    blockNumber: Number(BigInt(log.blockNumber)),
+    logIndex: Number(BigInt(log.logIndex)),
+    timestamp,
+    blockHash: log.blockHash,
+  } as IndexerEvent;
+}
+
+/**
+ * An error response from a JSON-RPC node. `data` is passed on as the node
+ * sent it; for a reverted `eth_call` it usually holds the revert data.
+ */
+export class RpcError extends Error {
+  constructor(
+    message: string,
+    readonly code: number,
+    readonly data: unknown,
+  ) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+export class JsonRpcClient {
+  private nextId = 1;
+
+  constructor(private readonly rpcUrl: string) {}
+
+  async call<T>(method: string, params: unknown[] = []): Promise<T> {
+    const response = await fetch(this.rpcUrl, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: this.nextId++,
+        method,
+        params,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`RPC ${method} failed with status ${response.status}`);
+    }
+    const payload = (await response.json()) as {
+      result?: T;
+      error?: { code: number; message: string; data?: unknown };
+    };
+    if (payload.error) {
+      throw new RpcError(
+        `RPC ${method} failed: ${payload.error.message}`,
+        payload.error.code,
+        payload.error.data,
+      );
+    }
+    return payload.result as T;
+  }
+}
+
+const toHex = (value: number) => `0x${value.toString(16)}`;
+
+type RpcBlock = {
+  hash: string;
+  timestamp: string;
+};
+
+/**
+ * Polls `eth_getLogs` for the marketplace contracts and feeds decoded events
+ * to an `Indexer`, one block range at a time.
+ */
+export class ChainSource {
+  private readonly rpc: JsonRpcClient;
+  private readonly addresses: ContractAddresses;
+  private readonly batchSize: number;
+  private readonly pollIntervalMs: number;
+  private readonly onError?: (error: unknown) => void;
+  private nextBlock: number;
+  private readonly toBlock: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+
+  constructor(
+    private readonly indexer: Indexer,
+    options: ChainSourceOptions,
+  ) {
+    this.rpc = new JsonRpcClient(options.rpcUrl);
+    this.addresses = options.addresses;
+    this.batchSize = options.batchSize ?? 1000;
+    this.pollIntervalMs = options.pollIntervalMs ?? 4000;
+    this.onError = options.onError;
+    this.nextBlock = Math.max(options.fromBlock ?? 0, indexer.getCursor() + 1);
+    this.toBlock = options.toBlock ?? Infinity;
+  }
+
+  get cursor() {
+    return this.nextBlock;
+  }
+
+  /**
+   * Ingests every log between the cursor and the current head. Returns the
+   * number of events handed to the indexer.
+   */
+  async poll(): Promise<number> {
+    await this.detectReorg();
+    const head = Math.min(
+      Number(BigInt(await this.rpc.call<string>('eth_blockNumber'))),
+      this.toBlock,
+    );
+    let ingested = 0;
+    while (this.nextBlock <= head) {
+      const toBlock = Math.min(this.nextBlock + this.batchSize - 1, head);
+      const events = await this.fetchEvents(this.nextBlock, toBlock);
+      if (events.length > 0) {
+        this.indexer.ingest(events);
+        ingested += events.length;
+      }
+      const block = await this.getBlock(toHex(toBlock));
+      this.indexer.advanceHead(toBlock, block.hash);
+      this.nextBlock = toBlock + 1;
+    }
+    return ingested;
+  }
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    const tick = async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        this.onError?.(error);
+      }
+      if (this.running) {
+        this.timer = setTimeout(tick, this.pollIntervalMs);
+      }
+    };
+    void tick();
+  }
+
+  stop() {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Compares the hashes of the indexer's unconfirmed blocks with the chain.
+   * On the first mismatch the indexer is rolled back and the cursor rewound
+   * so the canonical logs are fetched again.
+   */
+  private async detectReorg() {
+    for (const {
+      blockNumber,
+      blockHash,
+    } of this.indexer.getUnconfirmedBlocks()) {
+      const block = await this.rpc.call<RpcBlock | null>(
+        'eth_getBlockByNumber',
+        [toHex(blockNumber), false],
+      );
+      if (block && block.hash === blockHash) continue;
+      this.indexer.rollback(blockNumber);
+      this.nextBlock = Math.min(this.nextBlock, blockNumber);
+      return;
+    }
+  }
+
+  private async fetchEvents(
+    fromBlock: number,
+    toBlock: number,
+  ): Promise<IndexerEvent[]> {
+    const address = Object.values(this.addresses).filter(
+      (value): value is string => Boolean(value),
+    );
+    if (address.length === 0) return [];
+    const logs = await this.rpc.call<RpcLog[]>('eth_getLogs', [
+      { address, fromBlock: toHex(fromBlock), toBlock: toHex(toBlock) },
+    ]);
+
+    const timestamps = new Map<string, number>();
+    const events: IndexerEvent[] = [];
+    for (const log of logs) {
+      if (log.removed) continue;
+      let timestamp = timestamps.get(log.blockNumber);
+      if (timestamp === undefined) {
+        timestamp = Number(
+          BigInt((await this.getBlock(log.blockNumber)).timestamp),
+        );
+        timestamps.set(log.blockNumber, timestamp);
+      }
+      let event: IndexerEvent | null;
+      try {
+        event = decodeLog(log, this.addresses, timestamp);
+      } catch (error) {
+        this.onError?.(
+          new Error(
+            `Skipped log ${Number(BigInt(log.logIndex))} in block ${Number(BigInt(log.blockNumber))}: ${error instanceof Error ? error.message : error}`,
+          ),
+        );
+        continue;
+      }
+      if (event) events.push(event);
+    }
+    return events;
+  }
+
+  private async getBlock(blockNumber: string): Promise<RpcBlock> {
+    const block = await this.rpc.call<RpcBlock | null>('eth_getBlockByNumber', [
+      blockNumber,
+      false,
+    ]);
+    if (!block) {
+      throw new Error(`Block ${blockNumber} not found`);
+    }
+    return block;
+  }
+}
@@ -0,0 +1,199 @@
+import type {
+  AgentRecord,
+  DisputeRecord,
+  IndexerEvent,
+  ListingRecord,
+  TaskRecord,
+} from './indexer';
+import type { IndexerStore } from './store';
+
+type RecordChange<Entity extends string, Record> = {
+  entity: Entity;
+  /** Listing, task or agent ID; disputes are keyed by their task ID. */
+  id: number;
+  /** Null when the record was created by this batch. */
+  before: Record | null;
+  after: Record;
+  changedFields: (keyof Record)[];
+  /** Agent the record belongs to, where known. */
+  agentId: number | null;
+  /** Buyer of the task the record belongs to, where there is one. */
+  buyer: string | null;
+};
+
+export type ListingChange = RecordChange<'listing', ListingRecord>;
+export type TaskChange = RecordChange<'task', TaskRecord>;
+export type DisputeChange = RecordChange<'dispute', DisputeRecord>;
+export type AgentChange = RecordChange<'agent', AgentRecord>;
+
+export type IndexerChange =
+  | ListingChange
+  | TaskChange
+  | DisputeChange
+  | AgentChange;
+
+export type ChangeEntity = IndexerChange['entity'];
+
+export type ChangeFilter = {
+  entity?: ChangeEntity | ChangeEntity[];
+  id?: number;
+  agentId?: number;
+  /** Matched case-insensitively. */
+  buyer?: string;
+};
+
+/**
+ * Receives every change matching its filter from one committed batch, one
+ * entry per record however many events touched it.
+ */
+export type ChangeListener = (changes: IndexerChange[]) => void;
+
+export function matchesChangeFilter(
+  change: IndexerChange,
+  filter: ChangeFilter,
+): boolean {
+  if (
+    filter.entity !== undefined &&
+    !([] as ChangeEntity[]).concat(filter.entity).includes(change.entity)
+  ) {
+    return false;
+  }
+  if (filter.id !== undefined && change.id !== filter.id) return false;
+  if (filter.agentId !== undefined && change.agentId !== filter.agentId) {
+    return false;
+  }
+  if (
+    filter.buyer !== undefined &&
+    change.buyer?.toLowerCase() !== filter.buyer.toLowerCase()
+  ) {
+    return false;
+  }
+  return true;
+}
+
+// Records are plain JSON, and stores may hand out the live object that the
+// indexer then mutates, so snapshots are taken by value.
+const snapshot = <T>(record: T | null): T | null =>
+  record === null ? null : (JSON.parse(JSON.stringify(record)) as T);
+
+function changedFields<R extends object>(before: R | null, after: R) {
+  const keys = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after),
+  ]) as Set<keyof R>;
+  return Array.from(keys).filter(
+    (key) =>
+      JSON.stringify(before?.[key] ?? null) !==
+      JSON.stringify(after[key] ?? null),
+  );
+}
+
+/**
+ * Remembers what each record looked like before a batch first touched it,
+ * then diffs those snapshots against the store once the batch is applied.
+ */
+export class ChangeTracker {
+  private before = new Map<string, unknown>();
+
+  constructor(private readonly store: IndexerStore) {}
+
+  captureEvent(event: IndexerEvent) {
+    switch (event.type) {
+      case 'ListingCreated':
+      case 'ListingUpdated':
+        this.capture('listing', event.listingId);
+        break;
+      case 'AgentRegistered':
+      case 'AgentURIUpdated':
+      case 'Transfer':
+        this.capture('agent', event.agentId);
+        break;
+      case 'ResolverUpdated':
+        break;
+      default:
+        this.capture('task', event.taskId);
+        this.capture('dispute', event.taskId);
+    }
+  }
+
+  capture(entity: ChangeEntity, id: number) {
+    const key = `${entity}:${id}`;
+    if (this.before.has(key)) return;
+    this.before.set(key, snapshot(this.read(entity, id)));
+  }
+
+  /** Changes since capture, in the order records were first touched. */
+  collect(): IndexerChange[] {
+    const changes: IndexerChange[] = [];
+    for (const [key, before] of this.before) {
+      const [entity, rawId] = key.split(':') as [ChangeEntity, string];
+      const id = Number(rawId);
+      const after = snapshot(this.read(entity, id));
+      if (after === null) continue;
+      const fields = changedFields(before as object | null, after);
+      if (fields.length === 0) continue;
+      changes.push(this.describe(entity, id, before, after, fields));
+    }
+    this.before.clear();
+    return changes;
+  }
+
+  private read(entity: ChangeEntity, id: number) {
+    switch (entity) {
+      case 'listing':
+        return this.store.getListing(id);
+      case 'task':
+        return this.store.getTask(id);
+      case 'dispute':
+        return this.store.getDispute(id);
+      case 'agent':
+        return this.store.getAgent(id);
+    }
+  }
+
+  private describe(
+    entity: ChangeEntity,
+    id: number,
+    before: unknown,
+    after: object,
+    fields: PropertyKey[],
+  ): IndexerChange {
+    const base = { id, before, after, changedFields: fields };
+    switch (entity) {
+      case 'listing': {
+        const listing = after as ListingRecord;
+        return {
+          ...base,
+          entity,
+          agentId: listing.agentId,
+          buyer: null,
+        } as ListingChange;
+      }
+      case 'task': {
+        const task = after as TaskRecord;
+        return {
+          ...base,
+          entity,
+          agentId: task.agentId,
+          buyer: task.buyer,
+        } as TaskChange;
+      }
+      case 'dispute': {
+        const task = this.store.getTask(id);
+        return {
+          ...base,
+          entity,
+          agentId: task?.agentId ?? null,
+          buyer: (after as DisputeRecord).buyer ?? task?.buyer ?? null,
+        } as DisputeChange;
+      }
+      case 'agent':
+        return {
+          ...base,
+          entity,
+          agentId: id,
+          buyer: null,
+        } as AgentChange;
+    }
+  }
+}
@@ -0,0 +1,224 @@
+import type { CompositeId, DeploymentRef } from '@moes/shared';
+import {
+  formatCompositeId,
+  formatDeploymentKey,
+  parseCompositeId,
+} from '@moes/shared';
+import type { ChangeFilter, IndexerChange } from './change-feed';
+import type {
+  AgentMetrics,
+  BuyerMetrics,
+  DisputeRecord,
+  Indexer,
+  ListingMetrics,
+  ListingQuery,
+  ListingRecord,
+  MetricsOptions,
+  TaskMetrics,
+  TaskRecord,
+} from './indexer';
+import { computeBuyerMetrics, computeTaskMetrics } from './indexer';
+
+/** An indexer following one deployment's contracts on one chain. */
+export type Deployment = DeploymentRef & { indexer: Indexer };
+
+/**
+ * Restricts a query to the deployments on one chain, or to one deployment
+ * when `address` is set too. Every deployment is included when omitted.
+ */
+export type DeploymentScope = {
+  chainId?: number;
+  /** Matched case-insensitively. */
+  address?: string;
+};
+
+/** A record tagged with the deployment it was indexed from. */
+export type Deployed<T> = T & {
+  /** The record's ID qualified by its deployment; see `formatCompositeId`. */
+  id: CompositeId;
+  chainId: number;
+  address: string;
+};
+
+export type DeployedListing = Deployed<ListingRecord>;
+export type DeployedTask = Deployed<TaskRecord>;
+export type DeployedDispute = Deployed<DisputeRecord>;
+
+/**
+ * Receives the changes of one committed batch together with the deployment
+ * whose indexer committed it.
+ */
+export type DeploymentChangeListener = (
+  changes: IndexerChange[],
+  deployment: DeploymentRef,
+) => void;
+
+const byDeployment = (a: DeploymentRef, b: DeploymentRef) =>
+  a.chainId - b.chainId || a.address.localeCompare(b.address);
+
+/**
+ * Serves several deployments, e.g. a testnet and a mainnet marketplace, from
+ * one process. Each keeps its own indexer, store and cursor, since block
+ * numbers and reorgs are per chain; records are namespaced by chain ID and
+ * `TaskMarket` address and addressed by composite ID.
+ */
+export class MultiIndexer {
+  private readonly deployments = new Map<string, Deployment>();
+
+  constructor(deployments: Deployment[]) {
+    for (const deployment of deployments) {
+      const key = formatDeploymentKey(deployment);
+      if (this.deployments.has(key)) {
+        throw new Error(`Deployment ${key} is registered twice`);
+      }
+      this.deployments.set(key, {
+        ...deployment,
+        address: deployment.address.toLowerCase(),
+      });
+    }
+  }
+
+  /** Deployments in scope, ordered by chain ID then address. */
+  getDeployments(scope: DeploymentScope = {}): DeploymentRef[] {
+    return this.inScope(scope).map(({ chainId, address }) => ({
+      chainId,
+      address,
+    }));
+  }
+
+  /** Null when the deployment is not registered. */
+  getIndexer(deployment: DeploymentRef): Indexer | null {
+    return (
+      this.deployments.get(formatDeploymentKey(deployment))?.indexer ?? null
+    );
+  }
+
+  getListings(query: ListingQuery & DeploymentScope = {}): DeployedListing[] {
+    const { chainId, address, ...listingQuery } = query;
+    return this.inScope({ chainId, address }).flatMap((deployment) =>
+      deployment.indexer
+        .getListings(listingQuery)
+        .map((listing) => tag(deployment, listing.listingId, listing)),
+    );
+  }
+
+  getListing(id: CompositeId): DeployedListing | null {
+    return this.lookup(id, (indexer, listingId) => {
+      const [listing] = indexer.getListings({ listingIds: [listingId] });
+      return listing ?? null;
+    });
+  }
+
+  getTask(id: CompositeId): DeployedTask | null {
+    return this.lookup(id, (indexer, taskId) => indexer.getTask(taskId));
+  }
+
+  /** Disputes share the composite ID of their task. */
+  getDispute(id: CompositeId): DeployedDispute | null {
+    return this.lookup(id, (indexer, taskId) => indexer.getDispute(taskId));
+  }
+
+  /** Null when the agent's deployment is not registered. */
+  getAgentMetrics(
+    id: CompositeId,
+    options: MetricsOptions = {},
+  ): Deployed<AgentMetrics> | null {
+    return this.lookup(id, (indexer, agentId) =>
+      indexer.getAgentMetrics(agentId, options),
+    );
+  }
+
+  getListingMetrics(
+    id: CompositeId,
+    options: MetricsOptions = {},
+  ): Deployed<ListingMetrics> | null {
+    return this.lookup(id, (indexer, listingId) =>
+      indexer.getListingMetrics(listingId, options),
+    );
+  }
+
+  /** One buyer address across every deployment in scope. */
+  getBuyerMetrics(
+    buyer: string,
+    options: MetricsOptions = {},
+    scope: DeploymentScope = {},
+  ): BuyerMetrics {
+    const tasks = this.inScope(scope).flatMap(
+      ({ indexer }) => indexer.getTasks({ buyer }).tasks,
+    );
+    return computeBuyerMetrics(buyer, tasks, options);
+  }
+
+  /** Metrics over every task posted in the deployments in scope. */
+  getMarketMetrics(
+    options: MetricsOptions = {},
+    scope: DeploymentScope = {},
+  ): TaskMetrics {
+    const disputes = new Map<TaskRecord, DisputeRecord | null>();
+    for (const { indexer } of this.inScope(scope)) {
+      for (const task of indexer.getTasks().tasks) {
+        disputes.set(task, indexer.getDispute(task.taskId));
+      }
+    }
+    return computeTaskMetrics(
+      Array.from(disputes.keys()),
+      options,
+      (task) => disputes.get(task) ?? null,
+    );
+  }
+
+  /**
+   * Subscribes to every registered deployment with the same filter; IDs in
+   * the filter and the changes are the deployment's own numeric IDs.
+   * Returns a function that unsubscribes from all of them.
+   */
+  subscribe(
+    listener: DeploymentChangeListener,
+    filter: ChangeFilter = {},
+  ): () => void {
+    const unsubscribes = this.inScope({}).map(({ indexer, chainId, address }) =>
+      indexer.subscribe(
+        (changes) => listener(changes, { chainId, address }),
+        filter,
+      ),
+    );
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }
+
+  private inScope(scope: DeploymentScope): Deployment[] {
+    const address = scope.address?.toLowerCase();
+    return Array.from(this.deployments.values())
+      .filter(
+        (deployment) =>
+          (scope.chainId === undefined ||
+            deployment.chainId === scope.chainId) &&
+          (address === undefined || deployment.address === address),
+      )
+      .sort(byDeployment);
+  }
+
+  private lookup<T extends object>(
+    id: CompositeId,
+    find: (indexer: Indexer, recordId: number) => T | null,
+  ): Deployed<T> | null {
+    const parsed = parseCompositeId(id);
+    if (!parsed) throw new Error(`Invalid composite ID "${id}"`);
+    const deployment = this.deployments.get(formatDeploymentKey(parsed));
+    if (!deployment) return null;
+    const record = find(deployment.indexer, parsed.id);
+    return record ? tag(deployment, parsed.id, record) : null;
+  }
+}
+
+function tag<T extends object>(
+  deployment: DeploymentRef,
+  recordId: number,
+  record: T,
+): Deployed<T> {
+  return {
+    ...record,
+    id: formatCompositeId(deployment, recordId),
+    chainId: deployment.chainId,
+    address: deployment.address,
+  };
+}
@@ -1 +1,10 @@
 export * from "./indexer";
+export * from "./chain-source";
+export * from "./store";
+export * from "./sqlite-store";
+export * from "./migrations";
+export * from "./change-feed";
+export * from "./reconcile";
+export * from "./snapshot";
+export * from "./deployments";
+export * from "./tokens";
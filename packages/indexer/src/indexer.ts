@@ -1,9 +1,20 @@
-import fs from 'node:fs/promises';
+import type { TokenAmount } from '@moes/shared';
+import type {
+  ChangeEntity,
+  ChangeFilter,
+  ChangeListener,
+  IndexerChange,
+} from './change-feed';
+import { ChangeTracker, matchesChangeFilter } from './change-feed';
+import { SCHEMA_VERSION } from './migrations';
+import type { IndexerStore, PersistedState } from './store';
+import { JsonFileStore, MemoryStore } from './store';
 
 export type ChainEventBase = {
   blockNumber: number;
   logIndex: number;
   timestamp: number;
+  blockHash?: string;
 };
 
 export type ListingCreatedEvent = ChainEventBase & {
@@ -13,9 +24,9 @@ export type ListingCreatedEvent = ChainEventBase & {
   listingURI: string;
   pricing: {
     paymentToken: string;
-    basePrice: number;
+    basePrice: TokenAmount;
     unitType: string;
-    unitPrice: number;
+    unitPrice: TokenAmount;
     minUnits: number;
     maxUnits: number;
     quoteRequired: boolean;
@@ -23,6 +34,8 @@ export type ListingCreatedEvent = ChainEventBase & {
   policy: {
     challengeWindowSec: number;
     postDisputeWindowSec: number;
+    /** Null on listings indexed before the field was decoded. */
+    deliveryWindowSec: number | null;
     sellerBondBps: number;
   };
   active: boolean;
@@ -50,7 +63,7 @@ export type QuoteProposedEvent = ChainEventBase & {
   type: 'QuoteProposed';
   taskId: number;
   quotedUnits: number;
-  quotedTotalPrice: number;
+  quotedTotalPrice: TokenAmount;
   expiry: number;
 };
 
@@ -62,7 +75,7 @@ export type QuoteAcceptedEvent = ChainEventBase & {
 export type TaskFundedEvent = ChainEventBase & {
   type: 'TaskFunded';
   taskId: number;
-  amount: number;
+  amount: TokenAmount;
 };
 
 export type TaskAcceptedEvent = ChainEventBase & {
@@ -91,14 +104,14 @@ export type SubmissionDisputedEvent = ChainEventBase & {
 export type SellerBondFundedEvent = ChainEventBase & {
   type: 'SellerBondFunded';
   taskId: number;
-  amount: number;
+  amount: TokenAmount;
 };
 
 export type TaskSettledEvent = ChainEventBase & {
   type: 'TaskSettled';
   taskId: number;
-  buyerPayout: number;
-  sellerBondRefund: number;
+  buyerPayout: TokenAmount;
+  sellerBondRefund: TokenAmount;
 };
 
 export type TaskSettledV2Event = ChainEventBase & {
@@ -107,10 +120,10 @@ export type TaskSettledV2Event = ChainEventBase & {
   buyer: string;
   seller: string;
   bondFunder: string;
-  buyerEscrowPayout: number;
-  buyerBondPayout: number;
-  sellerEscrowPayout: number;
-  sellerBondRefund: number;
+  buyerEscrowPayout: TokenAmount;
+  buyerBondPayout: TokenAmount;
+  sellerEscrowPayout: TokenAmount;
+  sellerBondRefund: TokenAmount;
   path:
     | 'ACCEPTED'
     | 'TIMEOUT'
@@ -126,6 +139,26 @@ export type TaskCancelledEvent = ChainEventBase & {
   taskId: number;
 };
 
+export type TaskCancelledForNonDeliveryEvent = ChainEventBase & {
+  type: 'TaskCancelledForNonDelivery';
+  taskId: number;
+  escrowRefund: TokenAmount;
+  sellerBondPenalty: TokenAmount;
+};
+
+export type SellerCancelledQuoteEvent = ChainEventBase & {
+  type: 'SellerCancelledQuote';
+  taskId: number;
+  bondRefund: TokenAmount;
+};
+
+export type PostDisputeTimeoutSettledEvent = ChainEventBase & {
+  type: 'PostDisputeTimeoutSettled';
+  taskId: number;
+  deadline: number;
+  outcome: DisputeResolvedEvent['outcome'];
+};
+
 export type DisputeOpenedEvent = ChainEventBase & {
   type: 'DisputeOpened';
   taskId: number;
@@ -141,6 +174,37 @@ export type DisputeResolvedEvent = ChainEventBase & {
   resolutionURI: string;
 };
 
+/**
+ * An address added to (`allowed`) or removed from the dispute module's
+ * resolver set. The initial resolvers are announced from its constructor.
+ */
+export type ResolverUpdatedEvent = ChainEventBase & {
+  type: 'ResolverUpdated';
+  resolver: string;
+  allowed: boolean;
+};
+
+export type AgentRegisteredEvent = ChainEventBase & {
+  type: 'AgentRegistered';
+  agentId: number;
+  owner: string;
+  agentURI: string;
+};
+
+export type AgentURIUpdatedEvent = ChainEventBase & {
+  type: 'AgentURIUpdated';
+  agentId: number;
+  agentURI: string;
+};
+
+/** ERC-721 `Transfer` of an agent NFT; `from` is the zero address on mint. */
+export type AgentTransferEvent = ChainEventBase & {
+  type: 'Transfer';
+  agentId: number;
+  from: string;
+  to: string;
+};
+
 export type ListingEvent = ListingCreatedEvent | ListingUpdatedEvent;
 export type TaskEvent =
   | TaskPostedEvent
@@ -154,9 +218,21 @@ export type TaskEvent =
   | SellerBondFundedEvent
   | TaskSettledEvent
   | TaskSettledV2Event
-  | TaskCancelledEvent;
+  | TaskCancelledEvent
+  | TaskCancelledForNonDeliveryEvent
+  | SellerCancelledQuoteEvent
+  | PostDisputeTimeoutSettledEvent;
 export type DisputeEvent = DisputeOpenedEvent | DisputeResolvedEvent;
-export type IndexerEvent = ListingEvent | TaskEvent | DisputeEvent;
+export type AgentEvent =
+  | AgentRegisteredEvent
+  | AgentURIUpdatedEvent
+  | AgentTransferEvent;
+export type IndexerEvent =
+  | ListingEvent
+  | TaskEvent
+  | DisputeEvent
+  | ResolverUpdatedEvent
+  | AgentEvent;
 
 export type ListingRecord = {
   listingId: number;
@@ -202,12 +278,18 @@ export type TaskRecord = {
   taskURI: string | null;
   proposedUnits: number | null;
   quotedUnits: number | null;
-  quotedTotalPrice: number | null;
+  quotedTotalPrice: TokenAmount | null;
   quoteExpiry: number | null;
-  fundedAmount: number | null;
-  sellerBond: number | null;
+  fundedAmount: TokenAmount | null;
+  sellerBond: TokenAmount | null;
   artifactURI: string | null;
   artifactHash: string | null;
+  /**
+   * Agent owner snapshotted when the buyer accepted the quote, lowercased.
+   * Seller-side calls and escrow payouts go to this address even if the agent
+   * NFT moves.
+   */
+  seller: string | null;
   status:
     | 'OPEN'
     | 'QUOTED'
@@ -217,12 +299,47 @@ export type TaskRecord = {
     | 'SETTLED'
     | 'CANCELLED';
   postedAt: number | null;
+  /** When a quote was proposed or the listed price accepted by the seller. */
+  quotedAt: number | null;
   acceptedAt: number | null;
   submittedAt: number | null;
   submissionAcceptedAt: number | null;
   disputedAt: number | null;
   settledAt: number | null;
   cancelledAt: number | null;
+  /**
+   * Why the task was cancelled. TaskCancelled alone means the buyer withdrew;
+   * the seller-quote and non-delivery paths follow it with a second event.
+   */
+  cancelReason:
+    | 'BUYER_CANCELLED'
+    | 'SELLER_CANCELLED_QUOTE'
+    | 'NON_DELIVERY'
+    | null;
+  /** Escrow returned to the buyer by `cancelForNonDelivery`. */
+  cancelEscrowRefund: TokenAmount | null;
+  /** Seller bond paid to the buyer by `cancelForNonDelivery`. */
+  cancelBondPenalty: TokenAmount | null;
+  /** Seller bond returned to its funder by `sellerCancelQuote`. */
+  cancelBondRefund: TokenAmount | null;
+  /** Set when the seller won by default after the post-dispute window. */
+  postDisputeTimeoutAt: number | null;
+  /**
+   * When anyone may settle a DISPUTED task for the seller. Derived from the
+   * listing policy, then replaced by the deadline the contract reports.
+   */
+  postDisputeDeadline: number | null;
+  /** When the buyer may `cancelForNonDelivery` an unsubmitted task. */
+  deliveryDeadline: number | null;
+  /** When anyone may `settleAfterTimeout` an undisputed submission. */
+  challengeDeadline: number | null;
+  /** Payout split from TaskSettledV2; null until that event is indexed. */
+  settlementPath: TaskSettledV2Event['path'] | null;
+  bondFunder: string | null;
+  buyerEscrowPayout: TokenAmount | null;
+  buyerBondPayout: TokenAmount | null;
+  sellerEscrowPayout: TokenAmount | null;
+  sellerBondRefund: TokenAmount | null;
 };
 
 export type DisputeRecord = {
@@ -233,10 +350,68 @@ export type DisputeRecord = {
   resolvedAt: number | null;
   outcome: DisputeResolvedEvent['outcome'] | null;
   resolutionURI: string | null;
+  /**
+   * Lowercased address that called `resolve`. Null while open and for
+   * disputes settled by post-dispute timeout, which no resolver decided.
+   */
+  resolver: string | null;
+};
+
+export type DisputeOutcome = DisputeResolvedEvent['outcome'];
+
+export type DisputeState = 'OPEN' | 'RESOLVED';
+
+export type DisputeQuery = {
+  /** `OPEN` until an outcome is recorded, by a resolver or a timeout. */
+  state?: DisputeState;
+  outcome?: DisputeOutcome | DisputeOutcome[];
+  /** Matched case-insensitively. */
+  resolver?: string;
 };
 
-export type AgentMetrics = {
+/** A span during which an address could resolve disputes. */
+export type ResolverTerm = {
+  resolver: string;
+  addedAt: number;
+  /** Null while the address is still a resolver. */
+  removedAt: number | null;
+};
+
+export type OutcomeCounts = Record<DisputeOutcome, number>;
+
+export type ResolverMetrics = {
+  resolver: string;
+  /** Whether the address is in the resolver set now. */
+  active: boolean;
+  resolvedCount: number;
+  outcomes: OutcomeCounts;
+  /** Opened to resolved, over disputes this resolver decided. */
+  avgResolutionSec: number;
+  p50ResolutionSec: number;
+  p90ResolutionSec: number;
+};
+
+export type DisputeMetrics = {
+  openCount: number;
+  resolvedCount: number;
+  /** Resolved disputes by outcome, post-dispute timeouts included. */
+  outcomes: OutcomeCounts;
+  /** Settled by post-dispute timeout rather than by a resolver. */
+  timeoutCount: number;
+  /** Current and former resolvers, plus any that resolved without a term. */
+  resolvers: ResolverMetrics[];
+};
+
+export type AgentRecord = {
   agentId: number;
+  /** Current NFT owner, lowercased. */
+  owner: string | null;
+  agentURI: string | null;
+  registeredAt: number | null;
+  updatedAt: number | null;
+};
+
+export type TaskMetrics = {
   postedCount: number;
   acceptedCount: number;
   submittedCount: number;
@@ -244,11 +419,92 @@ export type AgentMetrics = {
   settledCount: number;
   autoReleaseCount: number;
   cancelCount: number;
+  buyerCancelCount: number;
+  sellerCancelCount: number;
+  nonDeliveryCount: number;
+  postDisputeTimeoutCount: number;
   acceptRate: number;
   disputeRate: number;
   cancelRate: number;
+  /** Share of accepted tasks the buyer cancelled for non-delivery. */
+  nonDeliveryRate: number;
   silentAutoReleaseFrequency: number;
   avgTimeToSubmitSec: number;
+  /** Posted to quoted (or accepted at the listed price). */
+  p50TimeToQuoteSec: number;
+  p90TimeToQuoteSec: number;
+  /** Quote accepted to deliverable submitted. */
+  p50TimeToSubmitSec: number;
+  p90TimeToSubmitSec: number;
+  /** Deliverable submitted to settled, including any dispute. */
+  p50TimeToSettleSec: number;
+  p90TimeToSettleSec: number;
+  /** Resolved disputes by `DisputeRecord.outcome`. */
+  sellerWinCount: number;
+  buyerWinCount: number;
+  splitCount: number;
+  disputeCancelCount: number;
+  /**
+   * Share of submitted tasks whose dispute went wholly or partly to the
+   * buyer. Unlike `disputeRate`, disputes the seller won do not count.
+   */
+  disputeLossRate: number;
+  /** Escrow funded on settled tasks inside the window, undecayed. */
+  settledVolume: TokenAmount;
+};
+
+export type AgentMetrics = { agentId: number } & TaskMetrics;
+
+export type ListingMetrics = { listingId: number } & TaskMetrics;
+
+/** How a buyer behaves across every task they posted, whichever agent. */
+export type BuyerMetrics = {
+  buyer: string;
+  postedCount: number;
+  /** Funded tasks that were not cancelled, since cancelling refunds escrow. */
+  fundedCount: number;
+  submittedCount: number;
+  disputeCount: number;
+  /** Tasks the buyer cancelled; non-delivery cancellations are excluded. */
+  cancelCount: number;
+  /** Share of submitted deliverables the buyer disputed. */
+  disputeRate: number;
+  cancelRate: number;
+  /**
+   * Sum of `fundedAmount` over tasks inside the window that were not
+   * cancelled, undecayed. Amounts in different payment tokens are added as-is.
+   */
+  fundedVolume: TokenAmount;
+};
+
+export type MetricsWindow = '7d' | '30d' | '90d';
+
+export type MetricsOptions = {
+  /** Only count tasks posted within this long before `now`. */
+  window?: MetricsWindow;
+  /**
+   * Weight each task by 0.5^(age / halfLifeSec), age measured from when it
+   * was posted. Counts become weighted sums and rates ratios of those sums.
+   */
+  halfLifeSec?: number;
+  /** Unix seconds that windows and ages are measured from. Defaults to now. */
+  now?: number;
+};
+
+export type TaskStatus = TaskRecord['status'];
+
+/**
+ * An event whose status change was refused. Its data fields are still
+ * recorded where they do not depend on the status it would have set.
+ */
+export type IngestDiagnostic = {
+  code: 'INVALID_TRANSITION';
+  eventType: TaskEvent['type'] | DisputeEvent['type'];
+  taskId: number;
+  blockNumber: number;
+  logIndex: number;
+  status: TaskStatus;
+  message: string;
 };
 
 export type ListingQuery = {
@@ -257,52 +513,663 @@ export type ListingQuery = {
   listingIds?: number[];
 };
 
-type PersistedState = {
-  listings: ListingRecord[];
+export type TaskSortField = 'taskId' | 'postedAt' | 'settledAt' | 'quoteExpiry';
+
+export type TaskQuery = {
+  status?: TaskStatus | TaskStatus[];
+  /** Matched case-insensitively. */
+  buyer?: string;
+  listingId?: number;
+  agentId?: number;
+  /** Inclusive bounds on `postedAt`. */
+  postedFrom?: number;
+  postedTo?: number;
+  /** Inclusive bounds on `settledAt`. */
+  settledFrom?: number;
+  settledTo?: number;
+  /** Only tasks holding a quote that expires strictly before this time. */
+  quoteExpiresBefore?: number;
+  /** Defaults to `taskId`. Tasks missing the field sort last either way. */
+  sortBy?: TaskSortField;
+  order?: 'asc' | 'desc';
+  /** Page size; every match is returned in one page when omitted. */
+  limit?: number;
+  /** `nextCursor` of the previous page, with the same filters and sort. */
+  cursor?: string;
+};
+
+export type TaskAction =
+  | 'settleAfterTimeout'
+  | 'cancelForNonDelivery'
+  | 'settleAfterPostDisputeTimeout';
+
+export type ActionableTask = {
+  task: TaskRecord;
+  action: TaskAction;
+  /** The buyer for `cancelForNonDelivery`; the settle calls are open to all. */
+  callableBy: 'ANYONE' | 'BUYER';
+  deadline: number;
+};
+
+export type TaskPage = {
   tasks: TaskRecord[];
-  disputes: DisputeRecord[];
+  /** Null once the last match has been returned. */
+  nextCursor: string | null;
 };
 
-export class Indexer {
-  private listings = new Map<number, ListingRecord>();
-  private tasks = new Map<number, TaskRecord>();
-  private disputes = new Map<number, DisputeRecord>();
-  private persistPath?: string;
+export type UnconfirmedBlock = {
+  blockNumber: number;
+  blockHash: string;
+};
+
+export type IndexerOptions = {
+  /** Shorthand for a `JsonFileStore` at this path. Ignored when `store` is set. */
+  persistPath?: string;
+  store?: IndexerStore;
+  /**
+   * Number of blocks an event must be buried under before it is applied to
+   * the listing/task/dispute maps. Reorgs deeper than this cannot be undone.
+   */
+  confirmations?: number;
+  /**
+   * Called with each error a change listener throws, and the changes it was
+   * given. The batch is already committed and the other listeners still run,
+   * so the error never reaches `ingest`; without this callback it is dropped.
+   */
+  onListenerError?: (error: unknown, changes: IndexerChange[]) => void;
+};
+
+// Statuses each task event may be applied from, mirroring the `status`
+// checks in TaskMarket.sol. SubmissionAccepted, the second settlement event
+// and PostDisputeTimeoutSettled are emitted after `_settle` has already marked
+// the task SETTLED; the cancellation detail events follow TaskCancelled.
+// TaskFunded and SellerBondFunded change no status and apply from any.
+const ALLOWED_FROM: Record<
+  | Exclude<TaskEvent['type'], 'TaskFunded' | 'SellerBondFunded'>
+  | 'DisputeOpened',
+  readonly TaskStatus[]
+> = {
+  TaskPosted: [
+    'OPEN',
+    'QUOTED',
+    'ACTIVE',
+    'SUBMITTED',
+    'DISPUTED',
+    'SETTLED',
+    'CANCELLED',
+  ],
+  QuoteProposed: ['OPEN'],
+  TaskAccepted: ['OPEN'],
+  QuoteAccepted: ['QUOTED'],
+  DeliverableSubmitted: ['ACTIVE'],
+  SubmissionAccepted: ['SUBMITTED', 'SETTLED'],
+  SubmissionDisputed: ['SUBMITTED'],
+  DisputeOpened: ['SUBMITTED', 'DISPUTED'],
+  TaskSettled: ['SUBMITTED', 'DISPUTED', 'SETTLED'],
+  TaskSettledV2: ['SUBMITTED', 'DISPUTED', 'SETTLED'],
+  TaskCancelled: ['OPEN', 'QUOTED', 'ACTIVE'],
+  TaskCancelledForNonDelivery: ['ACTIVE', 'CANCELLED'],
+  SellerCancelledQuote: ['QUOTED', 'CANCELLED'],
+  PostDisputeTimeoutSettled: ['DISPUTED', 'SETTLED'],
+};
+
+const changesStatus = (
+  event: IndexerEvent,
+): event is (TaskEvent | DisputeOpenedEvent) & {
+  type: keyof typeof ALLOWED_FROM;
+} => event.type in ALLOWED_FROM;
+
+const WINDOW_SEC: Record<MetricsWindow, number> = {
+  '7d': 7 * 86_400,
+  '30d': 30 * 86_400,
+  '90d': 90 * 86_400,
+};
+
+// Returns how much each task counts towards metrics under `options`: 1 for
+// every task when no window or decay is asked for.
+function taskWeigher(options: MetricsOptions) {
+  const { window, halfLifeSec } = options;
+  if (window === undefined && halfLifeSec === undefined) {
+    return () => 1;
+  }
+  if (halfLifeSec !== undefined && !(halfLifeSec > 0)) {
+    throw new Error(`halfLifeSec must be positive, got ${halfLifeSec}`);
+  }
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const since = window === undefined ? -Infinity : now - WINDOW_SEC[window];
+  return (task: TaskRecord) => {
+    const postedAt = task.postedAt;
+    if (postedAt === null || postedAt < since || postedAt > now) return 0;
+    return halfLifeSec === undefined
+      ? 1
+      : 0.5 ** ((now - postedAt) / halfLifeSec);
+  };
+}
 
-  constructor(options: { persistPath?: string } = {}) {
-    this.persistPath = options.persistPath;
+// Sums an amount over every task the weigher counts at all. Amounts are not
+// decayed: a fractional share of base units has no exact value.
+function totalAmount(
+  tasks: TaskRecord[],
+  weightOf: (task: TaskRecord) => number,
+  amountOf: (task: TaskRecord) => TokenAmount | null,
+): TokenAmount {
+  let total = 0n;
+  for (const task of tasks) {
+    const amount = amountOf(task);
+    if (amount !== null && weightOf(task) > 0) total += BigInt(amount);
   }
+  return total.toString();
+}
 
-  async load() {
-    if (!this.persistPath) return;
-    const data = await fs.readFile(this.persistPath, 'utf8');
-    const parsed = JSON.parse(data) as PersistedState;
-    this.listings = new Map(
-      parsed.listings.map((listing) => [listing.listingId, listing]),
+type Sample = { value: number; weight: number };
+
+// Weighted nearest-rank percentile; 0 when nothing was sampled.
+function percentile(samples: Sample[], p: number): number {
+  const sorted = samples
+    .filter((sample) => sample.weight > 0)
+    .sort((a, b) => a.value - b.value);
+  const total = sorted.reduce((sum, sample) => sum + sample.weight, 0);
+  let seen = 0;
+  for (const sample of sorted) {
+    seen += sample.weight;
+    if (seen >= p * total) return sample.value;
+  }
+  return 0;
+}
+
+const emptyOutcomeCounts = (): OutcomeCounts => ({
+  SELLER_WINS: 0,
+  BUYER_WINS: 0,
+  SPLIT: 0,
+  CANCEL: 0,
+});
+
+const resolvedCount = (outcomes: OutcomeCounts) =>
+  Object.values(outcomes).reduce((sum, count) => sum + count, 0);
+
+// Opened-to-resolved latency of every resolved dispute that has both times.
+function resolutionSamples(disputes: DisputeRecord[]): Sample[] {
+  return disputes.flatMap((dispute) =>
+    dispute.openedAt !== null && dispute.resolvedAt !== null
+      ? [{ value: dispute.resolvedAt - dispute.openedAt, weight: 1 }]
+      : [],
+  );
+}
+
+/**
+ * Metrics over any set of tasks. The tasks may come from several indexers;
+ * `disputeOf` looks a task's dispute up wherever it was indexed.
+ */
+export function computeTaskMetrics(
+  tasks: TaskRecord[],
+  options: MetricsOptions,
+  disputeOf: (task: TaskRecord) => DisputeRecord | null,
+): TaskMetrics {
+  const weightOf = taskWeigher(options);
+  const count = (predicate: (task: TaskRecord) => boolean) =>
+    tasks.reduce(
+      (sum, task) => (predicate(task) ? sum + weightOf(task) : sum),
+      0,
     );
-    this.tasks = new Map(parsed.tasks.map((task) => [task.taskId, task]));
-    this.disputes = new Map(
-      parsed.disputes.map((dispute) => [dispute.taskId, dispute]),
+  const postedCount = count((task) => task.postedAt !== null);
+  const acceptedCount = count((task) => task.acceptedAt !== null);
+  const submittedCount = count((task) => task.submittedAt !== null);
+  const disputeCount = count((task) => task.disputedAt !== null);
+  const settledCount = count((task) => task.settledAt !== null);
+  const cancelCount = count((task) => task.cancelledAt !== null);
+  const countCancelled = (reason: TaskRecord['cancelReason']) =>
+    count((task) => task.cancelReason === reason);
+  const buyerCancelCount = countCancelled('BUYER_CANCELLED');
+  const sellerCancelCount = countCancelled('SELLER_CANCELLED_QUOTE');
+  const nonDeliveryCount = countCancelled('NON_DELIVERY');
+  const postDisputeTimeoutCount = count(
+    (task) => task.postDisputeTimeoutAt !== null,
+  );
+  const autoReleaseCount = count((task) =>
+    task.settlementPath !== null
+      ? task.settlementPath === 'TIMEOUT'
+      : // Settled without a TaskSettledV2 record: infer from timestamps.
+        task.settledAt !== null &&
+        task.submissionAcceptedAt === null &&
+        task.disputedAt === null,
+  );
+
+  const outcomes = new Map<TaskRecord, DisputeRecord['outcome']>();
+  for (const task of tasks) {
+    if (task.disputedAt === null) continue;
+    outcomes.set(task, disputeOf(task)?.outcome ?? null);
+  }
+  const countOutcome = (outcome: DisputeRecord['outcome']) =>
+    count((task) => outcomes.get(task) === outcome);
+  const sellerWinCount = countOutcome('SELLER_WINS');
+  const buyerWinCount = countOutcome('BUYER_WINS');
+  const splitCount = countOutcome('SPLIT');
+  const disputeCancelCount = countOutcome('CANCEL');
+
+  const durations = (
+    from: (task: TaskRecord) => number | null,
+    to: (task: TaskRecord) => number | null,
+  ): Sample[] =>
+    tasks.flatMap((task) => {
+      const start = from(task);
+      const end = to(task);
+      return start === null || end === null
+        ? []
+        : [{ value: end - start, weight: weightOf(task) }];
+    });
+  const toQuote = durations(
+    (task) => task.postedAt,
+    (task) => task.quotedAt,
+  );
+  const toSubmit = durations(
+    (task) => task.acceptedAt,
+    (task) => task.submittedAt,
+  );
+  const toSettle = durations(
+    (task) => task.submittedAt,
+    (task) => task.settledAt,
+  );
+
+  const timeToSubmitWeight = toSubmit.reduce((sum, s) => sum + s.weight, 0);
+  const timeToSubmitTotal = toSubmit.reduce(
+    (sum, s) => sum + s.weight * s.value,
+    0,
+  );
+  const avgTimeToSubmitSec =
+    timeToSubmitWeight === 0 ? 0 : timeToSubmitTotal / timeToSubmitWeight;
+
+  return {
+    postedCount,
+    acceptedCount,
+    submittedCount,
+    disputeCount,
+    settledCount,
+    autoReleaseCount,
+    cancelCount,
+    buyerCancelCount,
+    sellerCancelCount,
+    nonDeliveryCount,
+    postDisputeTimeoutCount,
+    acceptRate: postedCount === 0 ? 0 : acceptedCount / postedCount,
+    disputeRate: submittedCount === 0 ? 0 : disputeCount / submittedCount,
+    cancelRate: postedCount === 0 ? 0 : cancelCount / postedCount,
+    nonDeliveryRate: acceptedCount === 0 ? 0 : nonDeliveryCount / acceptedCount,
+    silentAutoReleaseFrequency:
+      settledCount === 0 ? 0 : autoReleaseCount / settledCount,
+    avgTimeToSubmitSec,
+    p50TimeToQuoteSec: percentile(toQuote, 0.5),
+    p90TimeToQuoteSec: percentile(toQuote, 0.9),
+    p50TimeToSubmitSec: percentile(toSubmit, 0.5),
+    p90TimeToSubmitSec: percentile(toSubmit, 0.9),
+    p50TimeToSettleSec: percentile(toSettle, 0.5),
+    p90TimeToSettleSec: percentile(toSettle, 0.9),
+    sellerWinCount,
+    buyerWinCount,
+    splitCount,
+    disputeCancelCount,
+    disputeLossRate:
+      submittedCount === 0 ? 0 : (buyerWinCount + splitCount) / submittedCount,
+    settledVolume: totalAmount(tasks, weightOf, (task) =>
+      task.settledAt === null ? null : task.fundedAmount,
+    ),
+  };
+}
+
+/** Buyer metrics over `tasks`, which must all have been posted by `buyer`. */
+export function computeBuyerMetrics(
+  buyer: string,
+  tasks: TaskRecord[],
+  options: MetricsOptions,
+): BuyerMetrics {
+  const weightOf = taskWeigher(options);
+  const count = (predicate: (task: TaskRecord) => boolean) =>
+    tasks.reduce(
+      (sum, task) => (predicate(task) ? sum + weightOf(task) : sum),
+      0,
     );
+  // Every cancellation path returns the escrow to the buyer, so the record's
+  // `fundedAmount` no longer describes money held for the task.
+  const fundedAmountOf = (task: TaskRecord) =>
+    task.status === 'CANCELLED' ? null : task.fundedAmount;
+  const postedCount = count((task) => task.postedAt !== null);
+  const fundedCount = count((task) => fundedAmountOf(task) !== null);
+  const submittedCount = count((task) => task.submittedAt !== null);
+  const disputeCount = count((task) => task.disputedAt !== null);
+  const cancelCount = count((task) => task.cancelReason === 'BUYER_CANCELLED');
+
+  return {
+    buyer: buyer.toLowerCase(),
+    postedCount,
+    fundedCount,
+    submittedCount,
+    disputeCount,
+    cancelCount,
+    disputeRate: submittedCount === 0 ? 0 : disputeCount / submittedCount,
+    cancelRate: postedCount === 0 ? 0 : cancelCount / postedCount,
+    fundedVolume: totalAmount(tasks, weightOf, fundedAmountOf),
+  };
+}
+
+const inRange = (value: number | null, from?: number, to?: number) =>
+  (from === undefined || (value !== null && value >= from)) &&
+  (to === undefined || (value !== null && value <= to));
+
+// Orders tasks by one field, nulls last, then by task ID so every position is
+// unique and a cursor can resume from it.
+function taskOrder(sortBy: TaskSortField, order: 'asc' | 'desc') {
+  const direction = order === 'asc' ? 1 : -1;
+  return (
+    a: { key: number | null; taskId: number },
+    b: { key: number | null; taskId: number },
+  ) => {
+    if (a.key !== b.key) {
+      if (a.key === null) return 1;
+      if (b.key === null) return -1;
+      return direction * (a.key - b.key);
+    }
+    return direction * (a.taskId - b.taskId);
+  };
+}
+
+// Cursors name the sort they belong to, so one cannot silently resume a page
+// under different ordering.
+function encodeTaskCursor(
+  sortBy: TaskSortField,
+  order: 'asc' | 'desc',
+  task: TaskRecord,
+) {
+  return `${sortBy}:${order}:${task[sortBy] ?? ''}:${task.taskId}`;
+}
+
+function decodeTaskCursor(
+  cursor: string,
+  sortBy: TaskSortField,
+  order: 'asc' | 'desc',
+) {
+  const [field, direction, key, taskId] = cursor.split(':');
+  if (
+    field !== sortBy ||
+    direction !== order ||
+    key === undefined ||
+    !/^\d*$/.test(key) ||
+    !/^\d+$/.test(taskId ?? '')
+  ) {
+    throw new Error(`Invalid task cursor "${cursor}" for ${sortBy} ${order}`);
+  }
+  return { key: key === '' ? null : Number(key), taskId: Number(taskId) };
+}
+
+const eventKey = (event: ChainEventBase) =>
+  `${event.blockNumber}:${event.logIndex}`;
+
+const compareEvents = (a: ChainEventBase, b: ChainEventBase) => {
+  if (a.blockNumber !== b.blockNumber) return a.blockNumber - b.blockNumber;
+  return a.logIndex - b.logIndex;
+};
+
+export class Indexer {
+  private store: IndexerStore;
+  private pendingEvents: IndexerEvent[] = [];
+  private blockHashes = new Map<number, string>();
+  private headBlock = -1;
+  private lastProcessedBlock = -1;
+  private diagnostics: IngestDiagnostic[] = [];
+  private confirmations: number;
+  private onListenerError?: (error: unknown, changes: IndexerChange[]) => void;
+  private subscriptions = new Set<{
+    listener: ChangeListener;
+    filter: ChangeFilter;
+  }>();
+
+  constructor(options: IndexerOptions = {}) {
+    this.store =
+      options.store ??
+      (options.persistPath
+        ? new JsonFileStore(options.persistPath)
+        : new MemoryStore());
+    this.confirmations = options.confirmations ?? 0;
+    this.onListenerError = options.onListenerError;
+    this.restoreSyncState();
+  }
+
+  async load() {
+    await this.store.load();
+    this.restoreSyncState();
   }
 
   async persist() {
-    if (!this.persistPath) return;
-    const payload: PersistedState = {
-      listings: Array.from(this.listings.values()),
-      tasks: Array.from(this.tasks.values()),
-      disputes: Array.from(this.disputes.values()),
-    };
-    await fs.writeFile(this.persistPath, JSON.stringify(payload, null, 2));
+    this.saveSyncState();
+    await this.store.flush();
+  }
+
+  /**
+   * Every record, the event log and the ingestion cursor in the layout
+   * `JsonFileStore` writes, for snapshots that outlive the store. The result
+   * is a copy, so later ingestion does not change it.
+   */
+  exportState(): PersistedState {
+    const tasks = this.store.queryTasks({});
+    const events = this.store.queryEvents({});
+    return structuredClone({
+      schemaVersion: SCHEMA_VERSION,
+      listings: this.store.queryListings({}),
+      tasks,
+      disputes: tasks.flatMap(
+        (task) => this.store.getDispute(task.taskId) ?? [],
+      ),
+      agents: this.store.queryAgents({}),
+      events,
+      pendingEvents: this.pendingEvents,
+      blockHashes: Array.from(this.blockHashes.entries()),
+      headBlock: this.headBlock,
+      lastProcessedBlock: this.lastProcessedBlock,
+      // Events are logged as they are applied, so the log holds every key.
+      appliedEventKeys: events.map(eventKey),
+    });
   }
 
-  ingest(events: IndexerEvent[]) {
-    const ordered = [...events].sort((a, b) => {
-      if (a.blockNumber !== b.blockNumber) return a.blockNumber - b.blockNumber;
-      return a.logIndex - b.logIndex;
+  /**
+   * Seeds an empty store with exported state and returns an indexer that
+   * resumes from its cursor. `state` must already be at `SCHEMA_VERSION`.
+   */
+  static fromState(
+    state: PersistedState,
+    options: IndexerOptions = {},
+  ): Indexer {
+    if (state.schemaVersion !== SCHEMA_VERSION) {
+      throw new Error(
+        `Cannot restore schema ${state.schemaVersion} state; expected ${SCHEMA_VERSION}`,
+      );
+    }
+    const indexer = new Indexer(options);
+    const { store } = indexer;
+    if (store.getSyncState()) {
+      throw new Error('Cannot restore state into a store that is in use');
+    }
+    store.transaction(() => {
+      state.listings.forEach((listing) => store.putListing(listing));
+      state.tasks.forEach((task) => store.putTask(task));
+      state.disputes.forEach((dispute) => store.putDispute(dispute));
+      state.agents.forEach((agent) => store.putAgent(agent));
+      state.events.forEach((event) => store.appendEvent(event));
+      state.appliedEventKeys.forEach((key) => store.markEventApplied(key));
+      store.putSyncState({
+        pendingEvents: state.pendingEvents,
+        blockHashes: state.blockHashes,
+        headBlock: state.headBlock,
+        lastProcessedBlock: state.lastProcessedBlock,
+      });
     });
+    indexer.restoreSyncState();
+    return indexer;
+  }
+
+  /**
+   * Buffers events until they are `confirmations` blocks deep, then applies
+   * them in chain order. An event whose block hash differs from the one
+   * already recorded for its block rolls back that block and everything
+   * after it before being buffered.
+   *
+   * Returns the diagnostics for events rejected while applying this batch.
+   */
+  ingest(events: IndexerEvent[]): IngestDiagnostic[] {
+    const ordered = [...events].sort(compareEvents);
 
     for (const event of ordered) {
+      if (event.blockHash !== undefined) {
+        const known = this.blockHashes.get(event.blockNumber);
+        if (known !== undefined && known !== event.blockHash) {
+          this.rollback(event.blockNumber);
+        }
+        if (
+          this.pendingEvents.some(
+            (pending) =>
+              pending.blockNumber === event.blockNumber &&
+              pending.logIndex === event.logIndex &&
+              pending.blockHash === event.blockHash,
+          )
+        ) {
+          continue;
+        }
+        this.blockHashes.set(event.blockNumber, event.blockHash);
+      }
+      this.pendingEvents.push(event);
+      this.headBlock = Math.max(this.headBlock, event.blockNumber);
+    }
+
+    return this.finalize();
+  }
+
+  /**
+   * Records that the chain has reached `blockNumber`, confirming any
+   * buffered events that are now deep enough.
+   */
+  advanceHead(blockNumber: number, blockHash?: string): IngestDiagnostic[] {
+    if (blockHash !== undefined) {
+      const known = this.blockHashes.get(blockNumber);
+      if (known !== undefined && known !== blockHash) {
+        this.rollback(blockNumber);
+      }
+      this.blockHashes.set(blockNumber, blockHash);
+    }
+    this.headBlock = Math.max(this.headBlock, blockNumber);
+    return this.finalize();
+  }
+
+  /**
+   * Drops every buffered event from `fromBlock` onward so the source can
+   * replay the canonical chain from there.
+   */
+  rollback(fromBlock: number) {
+    if (fromBlock <= this.lastProcessedBlock) {
+      throw new Error(
+        `Cannot roll back to block ${fromBlock}: finalized through ${this.lastProcessedBlock}`,
+      );
+    }
+    this.pendingEvents = this.pendingEvents.filter(
+      (event) => event.blockNumber < fromBlock,
+    );
+    for (const blockNumber of Array.from(this.blockHashes.keys())) {
+      if (blockNumber >= fromBlock) this.blockHashes.delete(blockNumber);
+    }
+    this.headBlock = Math.max(this.lastProcessedBlock, fromBlock - 1);
+  }
+
+  /**
+   * Highest block whose events have all been applied. Sources resume from the
+   * block after it; replayed events are skipped by `(blockNumber, logIndex)`.
+   */
+  getCursor(): number {
+    return this.lastProcessedBlock;
+  }
+
+  /**
+   * Events that would move a task to a status the contract could not have
+   * reached from its status at the time. A late quote still records its
+   * price; any other such event is held with the unconfirmed events and
+   * retried on each ingest, since it may only have arrived before the event
+   * it follows.
+   */
+  getDiagnostics(): IngestDiagnostic[] {
+    return [...this.diagnostics];
+  }
+
+  getUnconfirmedBlocks(): UnconfirmedBlock[] {
+    return Array.from(this.blockHashes.entries())
+      .map(([blockNumber, blockHash]) => ({ blockNumber, blockHash }))
+      .sort((a, b) => a.blockNumber - b.blockNumber);
+  }
+
+  private finalize(): IngestDiagnostic[] {
+    const diagnosticsBefore = this.diagnostics.length;
+    const threshold = this.headBlock - this.confirmations;
+    if (threshold < 0) return [];
+    const ready = this.pendingEvents
+      .filter((event) => event.blockNumber <= threshold)
+      .sort(compareEvents);
+    const remaining = this.pendingEvents.filter(
+      (event) => event.blockNumber > threshold,
+    );
+    const before = {
+      pendingEvents: this.pendingEvents,
+      blockHashes: this.blockHashes,
+      lastProcessedBlock: this.lastProcessedBlock,
+    };
+
+    const tracker =
+      this.subscriptions.size > 0 ? new ChangeTracker(this.store) : null;
+    try {
+      this.store.transaction(() => {
+        const held = this.applyEvents(ready, tracker);
+        // The buffer and cursor move with the records they describe, so a
+        // batch that throws stays pending and is retried on the next call.
+        this.pendingEvents = [...held, ...remaining];
+        this.blockHashes = new Map(
+          Array.from(this.blockHashes).filter(
+            ([blockNumber]) => blockNumber > threshold,
+          ),
+        );
+        this.lastProcessedBlock = Math.max(this.lastProcessedBlock, threshold);
+        this.saveSyncState();
+      });
+    } catch (error) {
+      this.pendingEvents = before.pendingEvents;
+      this.blockHashes = before.blockHashes;
+      this.lastProcessedBlock = before.lastProcessedBlock;
+      this.diagnostics.length = diagnosticsBefore;
+      throw error;
+    }
+    if (tracker) this.publish(tracker.collect());
+
+    return this.diagnostics.slice(diagnosticsBefore);
+  }
+
+  // Returns the events held back because their task cannot make their
+  // status change yet. They are neither logged nor marked applied, so they
+  // still apply once the events they follow arrive.
+  private applyEvents(
+    events: IndexerEvent[],
+    tracker: ChangeTracker | null,
+  ): IndexerEvent[] {
+    const held = new Map<string, IndexerEvent>();
+    for (const event of events) {
+      const key = eventKey(event);
+      if (this.store.hasAppliedEvent(key) || held.has(key)) continue;
+      const allowed = !changesStatus(event) || this.canTransition(event);
+      // A late quote still carries the price that payouts and volumes need,
+      // so only its status change is refused.
+      if (
+        !allowed &&
+        event.type !== 'QuoteProposed' &&
+        event.type !== 'TaskAccepted'
+      ) {
+        held.set(key, event);
+        continue;
+      }
+      this.store.markEventApplied(key);
+      this.store.appendEvent(event);
+      tracker?.captureEvent(event);
+
       if (event.type === 'ListingCreated' || event.type === 'ListingUpdated') {
         this.applyListingEvent(event);
       } else if (
@@ -310,90 +1177,392 @@ export class Indexer {
         event.type === 'DisputeResolved'
       ) {
         this.applyDisputeEvent(event);
+      } else if (event.type === 'ResolverUpdated') {
+        // The resolver set is replayed from the event log when asked for;
+        // no record changes.
+      } else if (
+        event.type === 'AgentRegistered' ||
+        event.type === 'AgentURIUpdated' ||
+        event.type === 'Transfer'
+      ) {
+        this.applyAgentEvent(event);
       } else {
-        this.applyTaskEvent(event);
+        this.applyTaskEvent(event, allowed);
       }
     }
+    return Array.from(held.values());
   }
 
-  getAgentMetrics(agentId: number): AgentMetrics {
-    const tasks = Array.from(this.tasks.values()).filter(
-      (task) => task.agentId === agentId,
-    );
-    const postedCount = tasks.filter((task) => task.postedAt !== null).length;
-    const acceptedCount = tasks.filter(
-      (task) => task.acceptedAt !== null,
-    ).length;
-    const submittedCount = tasks.filter(
-      (task) => task.submittedAt !== null,
-    ).length;
-    const disputeCount = tasks.filter(
-      (task) => task.disputedAt !== null,
-    ).length;
-    const settledCount = tasks.filter((task) => task.settledAt !== null).length;
-    const cancelCount = tasks.filter(
-      (task) => task.cancelledAt !== null,
-    ).length;
-    const autoReleaseCount = tasks.filter(
-      (task) =>
-        task.settledAt !== null &&
-        task.submissionAcceptedAt === null &&
-        task.disputedAt === null,
-    ).length;
+  /**
+   * Calls `listener` after each committed batch with the records it changed
+   * that match `filter`. Only confirmed events produce changes, so none is
+   * ever retracted by a reorg. Returns a function that unsubscribes.
+   */
+  subscribe(listener: ChangeListener, filter: ChangeFilter = {}): () => void {
+    const subscription = { listener, filter };
+    this.subscriptions.add(subscription);
+    return () => {
+      this.subscriptions.delete(subscription);
+    };
+  }
 
-    const timeToSubmitValues = tasks
-      .filter((task) => task.acceptedAt !== null && task.submittedAt !== null)
-      .map((task) => (task.submittedAt ?? 0) - (task.acceptedAt ?? 0));
-    const avgTimeToSubmitSec =
-      timeToSubmitValues.length === 0
-        ? 0
-        : timeToSubmitValues.reduce((sum, value) => sum + value, 0) /
-          timeToSubmitValues.length;
+  // Every subscriber hears about the batch even if an earlier one throws.
+  // Errors go to `onListenerError`: the batch is committed by now, so
+  // throwing would only make a successful ingest look failed.
+  private publish(changes: IndexerChange[]) {
+    if (changes.length === 0) return;
+    for (const { listener, filter } of Array.from(this.subscriptions)) {
+      const matching = changes.filter((change) =>
+        matchesChangeFilter(change, filter),
+      );
+      if (matching.length === 0) continue;
+      try {
+        listener(matching);
+      } catch (error) {
+        this.onListenerError?.(error, matching);
+      }
+    }
+  }
+
+  private restoreSyncState() {
+    const state = this.store.getSyncState();
+    if (!state) return;
+    this.pendingEvents = state.pendingEvents;
+    this.blockHashes = new Map(state.blockHashes);
+    this.headBlock = state.headBlock;
+    this.lastProcessedBlock = state.lastProcessedBlock;
+  }
 
+  private saveSyncState() {
+    this.store.putSyncState({
+      pendingEvents: this.pendingEvents,
+      blockHashes: Array.from(this.blockHashes.entries()),
+      headBlock: this.headBlock,
+      lastProcessedBlock: this.lastProcessedBlock,
+    });
+  }
+
+  getAgentMetrics(agentId: number, options: MetricsOptions = {}): AgentMetrics {
     return {
       agentId,
-      postedCount,
-      acceptedCount,
-      submittedCount,
-      disputeCount,
-      settledCount,
-      autoReleaseCount,
-      cancelCount,
-      acceptRate: postedCount === 0 ? 0 : acceptedCount / postedCount,
-      disputeRate: submittedCount === 0 ? 0 : disputeCount / submittedCount,
-      cancelRate: postedCount === 0 ? 0 : cancelCount / postedCount,
-      silentAutoReleaseFrequency:
-        settledCount === 0 ? 0 : autoReleaseCount / settledCount,
-      avgTimeToSubmitSec,
+      ...computeTaskMetrics(
+        this.store.queryTasks({ agentId }),
+        options,
+        (task) => this.store.getDispute(task.taskId),
+      ),
     };
   }
 
+  /** Like `getAgentMetrics`, restricted to tasks posted against one listing. */
+  getListingMetrics(
+    listingId: number,
+    options: MetricsOptions = {},
+  ): ListingMetrics {
+    return {
+      listingId,
+      ...computeTaskMetrics(
+        this.store.queryTasks({ listingId }),
+        options,
+        (task) => this.store.getDispute(task.taskId),
+      ),
+    };
+  }
+
+  getBuyerMetrics(buyer: string, options: MetricsOptions = {}): BuyerMetrics {
+    return computeBuyerMetrics(
+      buyer,
+      this.store.queryTasks({ buyer: buyer.toLowerCase() }),
+      options,
+    );
+  }
+
   getListings(query: ListingQuery = {}): ListingRecord[] {
-    let listings = Array.from(this.listings.values());
-    if (query.agentId !== undefined) {
-      listings = listings.filter(
-        (listing) => listing.agentId === query.agentId,
-      );
+    return this.store.queryListings(query);
+  }
+
+  getTasksByAgent(agentId: number): TaskRecord[] {
+    return this.store.queryTasks({ agentId });
+  }
+
+  /**
+   * Tasks with a timeout call that would succeed at `now`, soonest deadline
+   * first. Tasks whose listing policy is unknown have no deadlines and are
+   * never returned.
+   */
+  getActionableTasks(now: number): ActionableTask[] {
+    const actionable: ActionableTask[] = [];
+    const tasks = this.store.queryTasks({
+      statuses: ['ACTIVE', 'SUBMITTED', 'DISPUTED'],
+    });
+    for (const task of tasks) {
+      if (
+        task.status === 'ACTIVE' &&
+        task.submittedAt === null &&
+        task.fundedAmount !== null &&
+        BigInt(task.fundedAmount) > 0n &&
+        task.deliveryDeadline !== null &&
+        now >= task.deliveryDeadline
+      ) {
+        actionable.push({
+          task,
+          action: 'cancelForNonDelivery',
+          callableBy: 'BUYER',
+          deadline: task.deliveryDeadline,
+        });
+      } else if (
+        task.status === 'SUBMITTED' &&
+        task.challengeDeadline !== null &&
+        now >= task.challengeDeadline
+      ) {
+        actionable.push({
+          task,
+          action: 'settleAfterTimeout',
+          callableBy: 'ANYONE',
+          deadline: task.challengeDeadline,
+        });
+      } else if (
+        task.status === 'DISPUTED' &&
+        task.postDisputeDeadline !== null &&
+        now >= task.postDisputeDeadline
+      ) {
+        actionable.push({
+          task,
+          action: 'settleAfterPostDisputeTimeout',
+          callableBy: 'ANYONE',
+          deadline: task.postDisputeDeadline,
+        });
+      }
     }
-    if (query.active !== undefined) {
-      listings = listings.filter((listing) => listing.active === query.active);
+    return actionable.sort(
+      (a, b) => a.deadline - b.deadline || a.task.taskId - b.task.taskId,
+    );
+  }
+
+  getTasks(query: TaskQuery = {}): TaskPage {
+    const sortBy = query.sortBy ?? 'taskId';
+    const order = query.order ?? 'asc';
+    if (
+      query.limit !== undefined &&
+      !(Number.isInteger(query.limit) && query.limit > 0)
+    ) {
+      throw new Error(`limit must be a positive integer, got ${query.limit}`);
     }
-    if (query.listingIds) {
-      const lookup = new Set(query.listingIds);
-      listings = listings.filter((listing) => lookup.has(listing.listingId));
+    const compare = taskOrder(sortBy, order);
+    const position = (task: TaskRecord) => ({
+      key: task[sortBy],
+      taskId: task.taskId,
+    });
+    const after =
+      query.cursor === undefined
+        ? null
+        : decodeTaskCursor(query.cursor, sortBy, order);
+
+    const matches = this.store
+      .queryTasks({
+        agentId: query.agentId,
+        listingId: query.listingId,
+        buyer: query.buyer?.toLowerCase(),
+        statuses:
+          query.status === undefined
+            ? undefined
+            : ([] as TaskStatus[]).concat(query.status),
+      })
+      .filter(
+        (task) =>
+          inRange(task.postedAt, query.postedFrom, query.postedTo) &&
+          inRange(task.settledAt, query.settledFrom, query.settledTo) &&
+          (query.quoteExpiresBefore === undefined ||
+            (task.quoteExpiry !== null &&
+              task.quoteExpiry < query.quoteExpiresBefore)) &&
+          (after === null || compare(position(task), after) > 0),
+      )
+      .sort((a, b) => compare(position(a), position(b)));
+
+    const tasks =
+      query.limit === undefined ? matches : matches.slice(0, query.limit);
+    const last = tasks[tasks.length - 1];
+    return {
+      tasks,
+      nextCursor:
+        last !== undefined && tasks.length < matches.length
+          ? encodeTaskCursor(sortBy, order, last)
+          : null,
+    };
+  }
+
+  getTask(taskId: number): TaskRecord | null {
+    return this.store.getTask(taskId);
+  }
+
+  getDispute(taskId: number): DisputeRecord | null {
+    return this.store.getDispute(taskId);
+  }
+
+  getDisputes(query: DisputeQuery = {}): DisputeRecord[] {
+    return this.store.queryDisputes(query);
+  }
+
+  /**
+   * Open disputes opened more than `thresholdSec` before `now`, oldest
+   * first.
+   */
+  getStaleDisputes(
+    thresholdSec: number,
+    now = Math.floor(Date.now() / 1000),
+  ): DisputeRecord[] {
+    return this.store
+      .queryDisputes({ state: 'OPEN' })
+      .filter(
+        (dispute) =>
+          dispute.openedAt !== null && now - dispute.openedAt > thresholdSec,
+      )
+      .sort((a, b) => (a.openedAt ?? 0) - (b.openedAt ?? 0));
+  }
+
+  /**
+   * Every span an address spent in the resolver set, replayed from
+   * `ResolverUpdated` events, in the order they began. Updates that leave
+   * the set unchanged are ignored.
+   */
+  getResolverTerms(): ResolverTerm[] {
+    const terms: ResolverTerm[] = [];
+    const current = new Map<string, ResolverTerm>();
+    const events = this.store
+      .queryEvents({ types: ['ResolverUpdated'] })
+      .filter(
+        (event): event is ResolverUpdatedEvent =>
+          event.type === 'ResolverUpdated',
+      )
+      .sort(compareEvents);
+    for (const event of events) {
+      const resolver = event.resolver.toLowerCase();
+      const term = current.get(resolver);
+      if (event.allowed && !term) {
+        const added = { resolver, addedAt: event.timestamp, removedAt: null };
+        current.set(resolver, added);
+        terms.push(added);
+      } else if (!event.allowed && term) {
+        term.removedAt = event.timestamp;
+        current.delete(resolver);
+      }
     }
-    return listings.sort((a, b) => a.listingId - b.listingId);
+    return terms;
   }
 
-  getTasksByAgent(agentId: number): TaskRecord[] {
-    return Array.from(this.tasks.values())
-      .filter((task) => task.agentId === agentId)
-      .sort((a, b) => a.taskId - b.taskId);
+  /** Resolver addresses in the set at `at`, or now when omitted, sorted. */
+  getResolvers(at?: number): string[] {
+    return this.getResolverTerms()
+      .filter((term) =>
+        at === undefined
+          ? term.removedAt === null
+          : term.addedAt <= at && (term.removedAt ?? Infinity) > at,
+      )
+      .map((term) => term.resolver)
+      .sort();
+  }
+
+  /**
+   * Outcome distribution of every dispute, and how fast and how each
+   * resolver decided the ones they resolved.
+   */
+  getDisputeMetrics(): DisputeMetrics {
+    const disputes = this.store.queryDisputes({});
+    const outcomes = emptyOutcomeCounts();
+    const byResolver = new Map<string, DisputeRecord[]>();
+    let timeoutCount = 0;
+    for (const dispute of disputes) {
+      if (dispute.outcome === null) continue;
+      outcomes[dispute.outcome] += 1;
+      const task = this.store.getTask(dispute.taskId);
+      if (task && task.postDisputeTimeoutAt !== null) timeoutCount += 1;
+      if (dispute.resolver !== null) {
+        const decided = byResolver.get(dispute.resolver) ?? [];
+        decided.push(dispute);
+        byResolver.set(dispute.resolver, decided);
+      }
+    }
+
+    const active = new Set(this.getResolvers());
+    const resolvers = new Set([
+      ...this.getResolverTerms().map((term) => term.resolver),
+      ...byResolver.keys(),
+    ]);
+    return {
+      openCount: disputes.length - resolvedCount(outcomes),
+      resolvedCount: resolvedCount(outcomes),
+      outcomes,
+      timeoutCount,
+      resolvers: Array.from(resolvers)
+        .sort()
+        .map((resolver) => {
+          const decided = byResolver.get(resolver) ?? [];
+          const counts = emptyOutcomeCounts();
+          decided.forEach((dispute) => {
+            if (dispute.outcome) counts[dispute.outcome] += 1;
+          });
+          const latencies = resolutionSamples(decided);
+          return {
+            resolver,
+            active: active.has(resolver),
+            resolvedCount: decided.length,
+            outcomes: counts,
+            avgResolutionSec:
+              latencies.length === 0
+                ? 0
+                : latencies.reduce((sum, sample) => sum + sample.value, 0) /
+                  latencies.length,
+            p50ResolutionSec: percentile(latencies, 0.5),
+            p90ResolutionSec: percentile(latencies, 0.9),
+          };
+        }),
+    };
+  }
+
+  getAgent(agentId: number): AgentRecord | null {
+    return this.store.getAgent(agentId);
+  }
+
+  getAgentsByOwner(owner: string): AgentRecord[] {
+    return this.store.queryAgents({ owner: owner.toLowerCase() });
+  }
+
+  /** Ownership changes of an agent NFT, starting with its mint. */
+  getAgentTransfers(agentId: number): AgentTransferEvent[] {
+    return this.store
+      .queryEvents({ agentId })
+      .filter((event): event is AgentTransferEvent => event.type === 'Transfer')
+      .sort(compareEvents);
+  }
+
+  /** Every applied task and dispute event for `taskId`, in chain order. */
+  getTaskHistory(taskId: number): IndexerEvent[] {
+    return this.store.queryEvents({ taskId }).sort(compareEvents);
+  }
+
+  /** Every applied ListingCreated/ListingUpdated event, in chain order. */
+  getListingHistory(listingId: number): IndexerEvent[] {
+    return this.store.queryEvents({ listingId }).sort(compareEvents);
+  }
+
+  /**
+   * Replays the event log up to and including the given block or timestamp
+   * into a fresh in-memory indexer, so any query can be answered as of then.
+   * Curation set through `setListingCuration` is not part of the log.
+   */
+  materializeAt(point: { blockNumber?: number; timestamp?: number }): Indexer {
+    const snapshot = new Indexer();
+    snapshot.ingest(
+      this.store.queryEvents({
+        toBlock: point.blockNumber,
+        toTimestamp: point.timestamp,
+      }),
+    );
+    return snapshot;
   }
 
   private applyListingEvent(event: ListingEvent) {
     if (event.type === 'ListingCreated') {
-      this.listings.set(event.listingId, {
+      this.store.putListing({
         listingId: event.listingId,
         agentId: event.agentId,
         listingURI: event.listingURI,
@@ -407,8 +1576,8 @@ export class Indexer {
       return;
     }
 
-    const existing = this.listings.get(event.listingId);
-    this.listings.set(event.listingId, {
+    const existing = this.store.getListing(event.listingId);
+    this.store.putListing({
       listingId: event.listingId,
       agentId: event.agentId,
       listingURI: event.listingURI,
@@ -421,18 +1590,87 @@ export class Indexer {
     });
   }
 
+  private applyAgentEvent(event: AgentEvent) {
+    const existing = this.store.getAgent(event.agentId);
+    const agent: AgentRecord = existing
+      ? { ...existing }
+      : {
+          agentId: event.agentId,
+          owner: null,
+          agentURI: null,
+          registeredAt: null,
+          updatedAt: null,
+        };
+
+    switch (event.type) {
+      case 'AgentRegistered':
+        agent.owner = event.owner.toLowerCase();
+        agent.agentURI = event.agentURI;
+        agent.registeredAt = event.timestamp;
+        break;
+      case 'AgentURIUpdated':
+        agent.agentURI = event.agentURI;
+        break;
+      case 'Transfer':
+        agent.owner = event.to.toLowerCase();
+        break;
+      default: {
+        const exhaustive: never = event;
+        return exhaustive;
+      }
+    }
+
+    agent.updatedAt = event.timestamp;
+    this.store.putAgent(agent);
+  }
+
   setListingCuration(listingId: number, curation: ListingCuration) {
-    const listing = this.listings.get(listingId);
+    const listing = this.store.getListing(listingId);
     if (!listing) {
       throw new Error(`Listing ${listingId} not found`);
     }
-    this.listings.set(listingId, {
-      ...listing,
-      curation,
-    });
+    this.withChangeFeed('listing', listingId, () =>
+      this.store.putListing({
+        ...listing,
+        curation,
+      }),
+    );
   }
 
-  private applyTaskEvent(event: TaskEvent) {
+  /** Overwrites fields of an indexed task, e.g. with values read from chain. */
+  repairTask(taskId: number, fields: Partial<Omit<TaskRecord, 'taskId'>>) {
+    const task = this.store.getTask(taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+    const repaired = { ...task, ...fields };
+    this.updateDeadlines(repaired);
+    this.withChangeFeed('task', taskId, () => this.store.putTask(repaired));
+  }
+
+  repairListing(
+    listingId: number,
+    fields: Partial<Omit<ListingRecord, 'listingId'>>,
+  ) {
+    const listing = this.store.getListing(listingId);
+    if (!listing) {
+      throw new Error(`Listing ${listingId} not found`);
+    }
+    this.withChangeFeed('listing', listingId, () =>
+      this.store.putListing({ ...listing, ...fields }),
+    );
+  }
+
+  // Publishes what `update` changes, for writes made outside of ingestion.
+  private withChangeFeed(entity: ChangeEntity, id: number, update: () => void) {
+    const tracker =
+      this.subscriptions.size > 0 ? new ChangeTracker(this.store) : null;
+    tracker?.capture(entity, id);
+    update();
+    if (tracker) this.publish(tracker.collect());
+  }
+
+  private applyTaskEvent(event: TaskEvent, allowed: boolean) {
     const task = this.ensureTask(event.taskId);
 
     switch (event.type) {
@@ -442,30 +1680,39 @@ export class Indexer {
         task.buyer = event.buyer;
         task.taskURI = event.taskURI;
         task.proposedUnits = event.proposedUnits;
-        task.status = 'OPEN';
         task.postedAt = event.timestamp;
         break;
       case 'QuoteProposed':
-        task.quotedUnits = event.quotedUnits;
-        task.quotedTotalPrice = event.quotedTotalPrice;
-        task.quoteExpiry = event.expiry;
-        task.status = 'QUOTED';
+        if (allowed || this.isLatestQuote(event)) {
+          task.quotedUnits = event.quotedUnits;
+          task.quotedTotalPrice = event.quotedTotalPrice;
+          task.quoteExpiry = event.expiry;
+          task.quotedAt = event.timestamp;
+        }
+        if (allowed) task.status = 'QUOTED';
         break;
       case 'QuoteAccepted':
         task.status = 'ACTIVE';
         task.acceptedAt = event.timestamp;
+        task.seller =
+          task.agentId === null
+            ? null
+            : (this.store.getAgent(task.agentId)?.owner ?? null);
         break;
       case 'TaskFunded':
         task.fundedAmount = event.amount;
         break;
       case 'TaskAccepted': {
-        task.status = 'QUOTED';
+        if (allowed) task.status = 'QUOTED';
+        if (!allowed && !this.isLatestQuote(event)) break;
+        task.quotedAt = event.timestamp;
         task.quotedUnits = task.proposedUnits;
-        const listing = this.listings.get(task.listingId ?? 0);
+        const listing = this.store.getListing(task.listingId ?? 0);
         if (listing?.pricing) {
-          task.quotedTotalPrice =
-            listing.pricing.basePrice +
-            (task.proposedUnits ?? 0) * listing.pricing.unitPrice;
+          task.quotedTotalPrice = (
+            BigInt(listing.pricing.basePrice) +
+            BigInt(task.proposedUnits ?? 0) * BigInt(listing.pricing.unitPrice)
+          ).toString();
         }
         break;
       }
@@ -492,31 +1739,74 @@ export class Indexer {
       case 'TaskSettledV2':
         task.status = 'SETTLED';
         task.settledAt = event.timestamp;
+        task.seller = event.seller.toLowerCase();
+        task.bondFunder = event.bondFunder.toLowerCase();
+        task.buyerEscrowPayout = event.buyerEscrowPayout;
+        task.buyerBondPayout = event.buyerBondPayout;
+        task.sellerEscrowPayout = event.sellerEscrowPayout;
+        task.sellerBondRefund = event.sellerBondRefund;
+        task.settlementPath = event.path;
         break;
       case 'TaskCancelled':
         task.status = 'CANCELLED';
         task.cancelledAt = event.timestamp;
+        task.cancelReason = 'BUYER_CANCELLED';
         break;
+      case 'TaskCancelledForNonDelivery':
+        task.status = 'CANCELLED';
+        task.cancelledAt = task.cancelledAt ?? event.timestamp;
+        task.cancelReason = 'NON_DELIVERY';
+        task.cancelEscrowRefund = event.escrowRefund;
+        task.cancelBondPenalty = event.sellerBondPenalty;
+        break;
+      case 'SellerCancelledQuote':
+        task.status = 'CANCELLED';
+        task.cancelledAt = task.cancelledAt ?? event.timestamp;
+        task.cancelReason = 'SELLER_CANCELLED_QUOTE';
+        task.cancelBondRefund = event.bondRefund;
+        break;
+      case 'PostDisputeTimeoutSettled': {
+        task.status = 'SETTLED';
+        task.settledAt = task.settledAt ?? event.timestamp;
+        task.postDisputeTimeoutAt = event.timestamp;
+        task.postDisputeDeadline = event.deadline;
+        // No DisputeResolved follows a timeout; record the default outcome so
+        // the dispute reads as settled.
+        const dispute = this.ensureDispute(event.taskId);
+        if (dispute.outcome === null) {
+          this.store.putDispute({
+            ...dispute,
+            resolvedAt: event.timestamp,
+            outcome: event.outcome,
+          });
+        }
+        break;
+      }
       default: {
         const exhaustive: never = event;
         return exhaustive;
       }
     }
 
-    this.tasks.set(task.taskId, task);
+    this.updateDeadlines(task);
+    this.store.putTask(task);
+  }
+
+  // Whether no quote after `event` has been applied to its task, so a late
+  // quote never replaces the terms that were accepted. `event` is already
+  // in the log when this runs.
+  private isLatestQuote(event: QuoteProposedEvent | TaskAcceptedEvent) {
+    return this.store
+      .queryEvents({
+        taskId: event.taskId,
+        types: ['QuoteProposed', 'TaskAccepted'],
+      })
+      .every((quote) => compareEvents(quote, event) <= 0);
   }
 
   private applyDisputeEvent(event: DisputeEvent) {
     const task = this.ensureTask(event.taskId);
-    const existing = this.disputes.get(event.taskId) ?? {
-      taskId: event.taskId,
-      buyer: null,
-      disputeURI: null,
-      openedAt: null,
-      resolvedAt: null,
-      outcome: null,
-      resolutionURI: null,
-    };
+    const existing = this.ensureDispute(event.taskId);
 
     if (event.type === 'DisputeOpened') {
       existing.buyer = event.buyer;
@@ -528,16 +1818,83 @@ export class Indexer {
       existing.resolvedAt = event.timestamp;
       existing.outcome = event.outcome;
       existing.resolutionURI = event.resolutionURI;
+      existing.resolver = event.resolver.toLowerCase();
+    }
+
+    this.store.putDispute(existing);
+    this.updateDeadlines(task);
+    this.store.putTask(task);
+  }
+
+  // Mirrors the windows TaskMarket checks, measured from the same timestamps.
+  private updateDeadlines(task: TaskRecord) {
+    const policy =
+      task.listingId === null
+        ? null
+        : (this.store.getListing(task.listingId)?.policy ?? null);
+    const after = (start: number | null, windowSec?: number | null) =>
+      start === null || windowSec === undefined || windowSec === null
+        ? null
+        : start + windowSec;
+    task.deliveryDeadline = after(task.acceptedAt, policy?.deliveryWindowSec);
+    task.challengeDeadline = after(
+      task.submittedAt,
+      policy?.challengeWindowSec,
+    );
+    if (task.postDisputeTimeoutAt === null) {
+      task.postDisputeDeadline = policy?.postDisputeWindowSec
+        ? after(task.disputedAt, policy.postDisputeWindowSec)
+        : null;
     }
+  }
 
-    this.disputes.set(event.taskId, existing);
-    this.tasks.set(task.taskId, task);
+  // Reports a refused event once, however often it is retried while held.
+  private canTransition(
+    event: (TaskEvent | DisputeOpenedEvent) & {
+      type: keyof typeof ALLOWED_FROM;
+    },
+  ): boolean {
+    const status = this.store.getTask(event.taskId)?.status ?? 'OPEN';
+    if (ALLOWED_FROM[event.type].includes(status)) return true;
+    const reported = this.diagnostics.some(
+      (diagnostic) =>
+        diagnostic.blockNumber === event.blockNumber &&
+        diagnostic.logIndex === event.logIndex,
+    );
+    if (reported) return false;
+    this.diagnostics.push({
+      code: 'INVALID_TRANSITION',
+      eventType: event.type,
+      taskId: event.taskId,
+      blockNumber: event.blockNumber,
+      logIndex: event.logIndex,
+      status,
+      message: `${event.type} cannot change task ${event.taskId} from status ${status}`,
+    });
+    return false;
+  }
+
+  private ensureDispute(taskId: number): DisputeRecord {
+    const existing = this.store.getDispute(taskId);
+    if (existing) return { ...existing };
+    return {
+      taskId,
+      buyer: null,
+      disputeURI: null,
+      openedAt: null,
+      resolvedAt: null,
+      outcome: null,
+      resolutionURI: null,
+      resolver: null,
+    };
   }
 
   private ensureTask(taskId: number): TaskRecord {
-    const existing = this.tasks.get(taskId);
-    if (existing) return existing;
-    const task: TaskRecord = {
+    // A copy, so a store without rollback keeps the stored record intact if
+    // applying the event throws before it is put back.
+    const existing = this.store.getTask(taskId);
+    if (existing) return { ...existing };
+    return {
       taskId,
       listingId: null,
       agentId: null,
@@ -551,16 +1908,30 @@ export class Indexer {
       sellerBond: null,
       artifactURI: null,
       artifactHash: null,
+      seller: null,
       status: 'OPEN',
       postedAt: null,
+      quotedAt: null,
       acceptedAt: null,
       submittedAt: null,
       submissionAcceptedAt: null,
       disputedAt: null,
       settledAt: null,
       cancelledAt: null,
+      cancelReason: null,
+      cancelEscrowRefund: null,
+      cancelBondPenalty: null,
+      cancelBondRefund: null,
+      postDisputeTimeoutAt: null,
+      postDisputeDeadline: null,
+      deliveryDeadline: null,
+      challengeDeadline: null,
+      settlementPath: null,
+      bondFunder: null,
+      buyerEscrowPayout: null,
+      buyerBondPayout: null,
+      sellerEscrowPayout: null,
+      sellerBondRefund: null,
     };
-    this.tasks.set(taskId, task);
-    return task;
   }
 }
@@ -0,0 +1,246 @@
+import type { PersistedState } from './store';
+
+export const SCHEMA_VERSION = 11;
+
+type RawState = Record<string, unknown>;
+
+// Every field, on records and events alike, that holds a token amount.
+const AMOUNT_FIELDS = [
+  'basePrice',
+  'unitPrice',
+  'quotedTotalPrice',
+  'amount',
+  'fundedAmount',
+  'sellerBond',
+  'buyerPayout',
+  'buyerEscrowPayout',
+  'buyerBondPayout',
+  'sellerEscrowPayout',
+  'sellerBondRefund',
+  'escrowRefund',
+  'sellerBondPenalty',
+  'bondRefund',
+  'cancelEscrowRefund',
+  'cancelBondPenalty',
+  'cancelBondRefund',
+];
+
+function amountsToStrings(record: RawState): RawState {
+  const next: RawState = { ...record };
+  for (const field of AMOUNT_FIELDS) {
+    const value = next[field];
+    if (typeof value === 'number') {
+      next[field] = BigInt(Math.round(value)).toString();
+    }
+  }
+  if (next.pricing && typeof next.pricing === 'object') {
+    next.pricing = amountsToStrings(next.pricing as RawState);
+  }
+  return next;
+}
+
+const mapRecords = (value: unknown, fn: (record: RawState) => RawState) =>
+  ((value as RawState[] | undefined) ?? []).map(fn);
+
+/**
+ * Upgrades a snapshot from the version it is keyed by to the next one. Add an
+ * entry here whenever a persisted record gains or changes a field.
+ */
+const MIGRATIONS: Record<number, (state: RawState) => RawState> = {
+  // v1 snapshots predate the ingestion cursor and reorg buffer.
+  1: (state) => ({
+    ...state,
+    pendingEvents: state.pendingEvents ?? [],
+    blockHashes: state.blockHashes ?? [],
+    headBlock: state.headBlock ?? -1,
+    lastProcessedBlock: state.lastProcessedBlock ?? -1,
+    appliedEventKeys: state.appliedEventKeys ?? [],
+  }),
+  // v2 snapshots have no event log; history starts at the upgrade.
+  2: (state) => ({
+    ...state,
+    events: state.events ?? [],
+  }),
+  // v3 task records have no cancellation detail. Cancellations recorded so
+  // far are left without a reason rather than guessed.
+  3: (state) => ({
+    ...state,
+    tasks: mapRecords(state.tasks, (task) => ({
+      cancelReason: null,
+      cancelEscrowRefund: null,
+      cancelBondPenalty: null,
+      cancelBondRefund: null,
+      postDisputeTimeoutAt: null,
+      postDisputeDeadline: null,
+      ...task,
+    })),
+  }),
+  // v4 snapshots have no agent identity records or seller snapshot. Agents
+  // fill in as identity events are indexed from here on.
+  4: (state) => ({
+    ...state,
+    agents: state.agents ?? [],
+    tasks: mapRecords(state.tasks, (task) => ({
+      seller: null,
+      ...task,
+    })),
+  }),
+  // v5 task records dropped the TaskSettledV2 payout split. Already-settled
+  // tasks keep null payouts; a resync from chain fills them in.
+  5: (state) => ({
+    ...state,
+    tasks: mapRecords(state.tasks, (task) => ({
+      settlementPath: null,
+      bondFunder: null,
+      buyerEscrowPayout: null,
+      buyerBondPayout: null,
+      sellerEscrowPayout: null,
+      sellerBondRefund: null,
+      ...task,
+    })),
+  }),
+  // v6 stored token amounts as JS numbers. Values past 2^53 were already
+  // rounded when written; this only stops it happening again.
+  6: (state) => ({
+    ...state,
+    listings: mapRecords(state.listings, amountsToStrings),
+    tasks: mapRecords(state.tasks, amountsToStrings),
+    events: mapRecords(state.events, amountsToStrings),
+    pendingEvents: mapRecords(state.pendingEvents, amountsToStrings),
+  }),
+  // v7 task records have no quote timestamp and post-dispute timeouts left
+  // the dispute without an outcome. Both are recovered from the event log as
+  // far back as it reaches.
+  7: (state) => {
+    const quotedAt = new Map<unknown, unknown>();
+    const timeouts = new Map<unknown, RawState>();
+    for (const event of mapRecords(state.events, (event) => event)) {
+      if (
+        (event.type === 'QuoteProposed' || event.type === 'TaskAccepted') &&
+        !quotedAt.has(event.taskId)
+      ) {
+        quotedAt.set(event.taskId, event.timestamp);
+      }
+      if (event.type === 'PostDisputeTimeoutSettled') {
+        timeouts.set(event.taskId, event);
+      }
+    }
+    return {
+      ...state,
+      tasks: mapRecords(state.tasks, (task) => ({
+        quotedAt: quotedAt.get(task.taskId) ?? null,
+        ...task,
+      })),
+      disputes: mapRecords(state.disputes, (dispute) => {
+        const timeout = timeouts.get(dispute.taskId);
+        return timeout && dispute.outcome === null
+          ? {
+              ...dispute,
+              resolvedAt: timeout.timestamp,
+              outcome: timeout.outcome,
+            }
+          : dispute;
+      }),
+    };
+  },
+  // v8 listing policies lack the delivery window, which only a resync can
+  // recover, and task records have no derived deadlines. The challenge and
+  // post-dispute deadlines are rebuilt from the listing policy.
+  8: (state) => {
+    const withDeliveryWindow = (record: RawState) =>
+      record.policy && typeof record.policy === 'object'
+        ? {
+            ...record,
+            policy: { deliveryWindowSec: null, ...(record.policy as RawState) },
+          }
+        : record;
+    const policies = new Map<unknown, RawState>();
+    for (const listing of mapRecords(state.listings, (listing) => listing)) {
+      if (listing.policy)
+        policies.set(listing.listingId, listing.policy as RawState);
+    }
+    const after = (start: unknown, windowSec: unknown) =>
+      typeof start === 'number' && typeof windowSec === 'number'
+        ? start + windowSec
+        : null;
+    return {
+      ...state,
+      listings: mapRecords(state.listings, withDeliveryWindow),
+      events: mapRecords(state.events, withDeliveryWindow),
+      pendingEvents: mapRecords(state.pendingEvents, withDeliveryWindow),
+      tasks: mapRecords(state.tasks, (task) => {
+        const policy = policies.get(task.listingId);
+        return {
+          deliveryDeadline: null,
+          challengeDeadline: after(
+            task.submittedAt,
+            policy?.challengeWindowSec,
+          ),
+          ...task,
+          postDisputeDeadline:
+            task.postDisputeDeadline ??
+            (policy?.postDisputeWindowSec
+              ? after(task.disputedAt, policy.postDisputeWindowSec)
+              : null),
+        };
+      }),
+    };
+  },
+  // v9 dispute records do not say who resolved them. The resolver is taken
+  // from the DisputeResolved event where the event log still has it.
+  9: (state) => {
+    const resolvers = new Map<unknown, unknown>();
+    for (const event of mapRecords(state.events, (event) => event)) {
+      if (
+        event.type === 'DisputeResolved' &&
+        typeof event.resolver === 'string'
+      ) {
+        resolvers.set(event.taskId, event.resolver.toLowerCase());
+      }
+    }
+    return {
+      ...state,
+      disputes: mapRecords(state.disputes, (dispute) => ({
+        resolver: resolvers.get(dispute.taskId) ?? null,
+        ...dispute,
+      })),
+    };
+  },
+  // v10 took the seller and bond funder from TaskSettledV2 in the case the
+  // log had them, while QuoteAccepted stores the lowercased agent owner.
+  10: (state) => {
+    const lower = (address: unknown) =>
+      typeof address === 'string' ? address.toLowerCase() : address;
+    return {
+      ...state,
+      tasks: mapRecords(state.tasks, (task) => ({
+        ...task,
+        seller: lower(task.seller),
+        bondFunder: lower(task.bondFunder),
+      })),
+    };
+  },
+};
+
+export function migratePersistedState(raw: unknown): PersistedState {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Persisted state is not an object');
+  }
+  let state = raw as RawState;
+  let version =
+    typeof state.schemaVersion === 'number' ? state.schemaVersion : 1;
+  if (version > SCHEMA_VERSION) {
+    throw new Error(
+      `Persisted state schema ${version} is newer than supported ${SCHEMA_VERSION}`,
+    );
+  }
+  while (version < SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from schema version ${version}`);
+    }
+    state = migrate(state);
+    version += 1;
+  }
+  return { ...state, schemaVersion: version } as PersistedState;
+}
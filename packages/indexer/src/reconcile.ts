@@ -0,0 +1,355 @@
+import type { ContractAddresses } from './chain-source';
+import { AbiReader, JsonRpcClient, RpcError } from './chain-source';
+import type { Indexer, ListingRecord, TaskRecord, TaskStatus } from './indexer';
+
+// First four bytes of keccak256 of each view signature, as declared by the
+// contracts in packages/contracts/contracts.
+export const FUNCTION_SELECTORS = {
+  getTask: '0x1d65e77e',
+  getListing: '0x107a274a',
+} as const;
+
+// What the getters revert with for an id that does not exist.
+const NOT_FOUND_REASONS = {
+  task: 'TaskMarket: task not found',
+  listing: 'ListingRegistry: listing not found',
+} as const;
+
+// Selector of `Error(string)`, which `revert("...")` encodes its reason as.
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+
+const TASK_STATUSES: TaskStatus[] = [
+  'OPEN',
+  'QUOTED',
+  'ACTIVE',
+  'SUBMITTED',
+  'DISPUTED',
+  'SETTLED',
+  'CANCELLED',
+];
+
+// Cancelling a task zeroes these on chain while the indexer keeps the last
+// values it saw, so they are not compared once the task is cancelled.
+const CLEARED_ON_CANCEL = [
+  'quotedUnits',
+  'quotedTotalPrice',
+  'quoteExpiry',
+  'fundedAmount',
+  'sellerBond',
+];
+
+const ZERO_WORD = /^0x0*$/;
+
+type TaskOnChain = Pick<
+  TaskRecord,
+  | 'listingId'
+  | 'agentId'
+  | 'buyer'
+  | 'seller'
+  | 'taskURI'
+  | 'proposedUnits'
+  | 'quotedUnits'
+  | 'quotedTotalPrice'
+  | 'quoteExpiry'
+  | 'fundedAmount'
+  | 'sellerBond'
+  | 'artifactURI'
+  | 'artifactHash'
+  | 'acceptedAt'
+  | 'submittedAt'
+  | 'disputedAt'
+  | 'status'
+>;
+
+type ListingOnChain = Pick<
+  ListingRecord,
+  'agentId' | 'listingURI' | 'pricing' | 'policy' | 'active'
+>;
+
+export type ReconcileOptions = {
+  rpcUrl: string;
+  addresses: ContractAddresses;
+  /** Defaults to every task the indexer holds. */
+  taskIds?: number[];
+  /** Defaults to every listing the indexer holds. */
+  listingIds?: number[];
+  /** Check this many randomly chosen tasks and listings instead of all. */
+  sampleSize?: number;
+  /** Overwrite mismatched fields of indexed records with on-chain values. */
+  repair?: boolean;
+};
+
+export type ReconcileMismatch = {
+  entity: 'task' | 'listing';
+  id: number;
+  /** Dotted path into the record, e.g. `pricing.unitPrice`. */
+  field: string;
+  indexed: unknown;
+  onChain: unknown;
+};
+
+export type ReconcileMissing = {
+  entity: 'task' | 'listing';
+  id: number;
+  /** Where the record could not be found. */
+  missingFrom: 'index' | 'chain';
+};
+
+export type ReconcileReport = {
+  /** Block the contracts were read at: the indexer's cursor. */
+  blockTag: string;
+  tasksChecked: number;
+  listingsChecked: number;
+  mismatches: ReconcileMismatch[];
+  missing: ReconcileMissing[];
+  /** Records rewritten from chain; zero unless `repair` was set. */
+  repaired: number;
+};
+
+const orNull = <T>(value: T, empty: boolean) => (empty ? null : value);
+
+function decodeTask(result: string): TaskOnChain {
+  const task = new AbiReader(result).tuple(0);
+  const address = (index: number) => {
+    const value = task.address(index);
+    return orNull(value, ZERO_WORD.test(value));
+  };
+  const optional = (index: number) => {
+    const value = task.uint(index);
+    return orNull(value, value === 0);
+  };
+  const amount = (index: number) => {
+    const value = task.amount(index);
+    return orNull(value, value === '0');
+  };
+  const artifactURI = task.string(14);
+  const artifactHash = task.bytes32(15);
+  return {
+    listingId: task.uint(1),
+    agentId: task.uint(2),
+    buyer: address(3),
+    seller: address(4),
+    taskURI: task.string(6),
+    proposedUnits: task.uint(7),
+    quotedUnits: optional(8),
+    quotedTotalPrice: amount(9),
+    quoteExpiry: optional(10),
+    fundedAmount: amount(11),
+    sellerBond: amount(12),
+    artifactURI: orNull(artifactURI, artifactURI === ''),
+    artifactHash: orNull(artifactHash, ZERO_WORD.test(artifactHash)),
+    acceptedAt: optional(16),
+    submittedAt: optional(17),
+    disputedAt: optional(18),
+    status: TASK_STATUSES[task.uint(19)] ?? 'OPEN',
+  };
+}
+
+function decodeListing(result: string): ListingOnChain {
+  const data = new AbiReader(result);
+  return {
+    agentId: data.uint(0),
+    listingURI: data.string(1),
+    pricing: {
+      paymentToken: data.address(2),
+      basePrice: data.amount(3),
+      unitType: Buffer.from(data.word(4), 'hex')
+        .toString('utf8')
+        .replace(/\0+$/, ''),
+      unitPrice: data.amount(5),
+      minUnits: data.uint(6),
+      maxUnits: data.uint(7),
+      quoteRequired: data.bool(8),
+    },
+    policy: {
+      challengeWindowSec: data.uint(9),
+      postDisputeWindowSec: data.uint(10),
+      deliveryWindowSec: data.uint(11),
+      sellerBondBps: data.uint(12),
+    },
+    active: data.bool(13),
+  };
+}
+
+// Addresses are compared case-insensitively; everything else by value.
+const normalize = (value: unknown) =>
+  typeof value === 'string' && /^0x[0-9a-fA-F]{40}$/.test(value)
+    ? value.toLowerCase()
+    : value;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+function diffFields(
+  indexed: Record<string, unknown>,
+  onChain: Record<string, unknown>,
+  prefix = '',
+): { field: string; indexed: unknown; onChain: unknown }[] {
+  return Object.entries(onChain).flatMap(([key, chainValue]) => {
+    const field = `${prefix}${key}`;
+    const indexedValue = indexed[key] ?? null;
+    if (isObject(chainValue) && isObject(indexedValue)) {
+      return diffFields(indexedValue, chainValue, `${field}.`);
+    }
+    return JSON.stringify(normalize(indexedValue)) ===
+      JSON.stringify(normalize(chainValue))
+      ? []
+      : [{ field, indexed: indexedValue, onChain: chainValue }];
+  });
+}
+
+function sample(ids: number[], size: number | undefined): number[] {
+  if (size === undefined || size >= ids.length) return ids;
+  const pool = [...ids];
+  for (let i = 0; i < size; i += 1) {
+    const j = i + Math.floor(Math.random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j] as number, pool[i] as number];
+  }
+  return pool.slice(0, size).sort((a, b) => a - b);
+}
+
+// The reason string of a reverted call, decoded from the revert data. Nodes
+// put that data in `error.data`, or one level down in `error.data.data`;
+// error messages are not relied on since their wording differs by node.
+function revertReason(error: unknown): string | null {
+  if (!(error instanceof RpcError)) return null;
+  const data = isObject(error.data) ? error.data.data : error.data;
+  if (typeof data !== 'string' || !data.startsWith(ERROR_STRING_SELECTOR)) {
+    return null;
+  }
+  try {
+    return new AbiReader(data.slice(ERROR_STRING_SELECTOR.length)).string(0);
+  } catch {
+    return null;
+  }
+}
+
+const encodeCall = (selector: string, id: number) =>
+  `${selector}${BigInt(id).toString(16).padStart(64, '0')}`;
+
+/**
+ * Reads tasks and listings back from the contracts at the indexer's cursor
+ * and compares them field by field with the indexed records. Reading at the
+ * cursor rather than the head keeps events the indexer has not confirmed yet
+ * from showing up as drift.
+ */
+export async function reconcile(
+  indexer: Indexer,
+  options: ReconcileOptions,
+): Promise<ReconcileReport> {
+  const rpc = new JsonRpcClient(options.rpcUrl);
+  const cursor = indexer.getCursor();
+  const blockTag = cursor < 0 ? 'latest' : `0x${cursor.toString(16)}`;
+
+  // Returns null when the contract reverts because the id does not exist.
+  const read = async (
+    entity: keyof typeof NOT_FOUND_REASONS,
+    to: string,
+    data: string,
+  ) => {
+    try {
+      return await rpc.call<string>('eth_call', [{ to, data }, blockTag]);
+    } catch (error) {
+      if (revertReason(error) === NOT_FOUND_REASONS[entity]) return null;
+      throw error;
+    }
+  };
+
+  const report: ReconcileReport = {
+    blockTag,
+    tasksChecked: 0,
+    listingsChecked: 0,
+    mismatches: [],
+    missing: [],
+    repaired: 0,
+  };
+
+  const taskMarket = options.addresses.taskMarket;
+  if (taskMarket) {
+    const taskIds = sample(
+      options.taskIds ?? indexer.getTasks().tasks.map((task) => task.taskId),
+      options.sampleSize,
+    );
+    for (const taskId of taskIds) {
+      report.tasksChecked += 1;
+      const task = indexer.getTask(taskId);
+      const result = await read(
+        'task',
+        taskMarket,
+        encodeCall(FUNCTION_SELECTORS.getTask, taskId),
+      );
+      if (!task || !result) {
+        report.missing.push({
+          entity: 'task',
+          id: taskId,
+          missingFrom: task ? 'chain' : 'index',
+        });
+        continue;
+      }
+      const onChain = decodeTask(result);
+      const diffs = diffFields(task, onChain).filter(
+        ({ field }) =>
+          onChain.status !== 'CANCELLED' || !CLEARED_ON_CANCEL.includes(field),
+      );
+      for (const diff of diffs) {
+        report.mismatches.push({ entity: 'task', id: taskId, ...diff });
+      }
+      if (options.repair && diffs.length > 0) {
+        indexer.repairTask(
+          taskId,
+          Object.fromEntries(
+            diffs.map(({ field }) => [
+              field,
+              onChain[field as keyof TaskOnChain],
+            ]),
+          ),
+        );
+        report.repaired += 1;
+      }
+    }
+  }
+
+  const listingRegistry = options.addresses.listingRegistry;
+  if (listingRegistry) {
+    const listingIds = sample(
+      options.listingIds ??
+        indexer.getListings().map((listing) => listing.listingId),
+      options.sampleSize,
+    );
+    for (const listingId of listingIds) {
+      report.listingsChecked += 1;
+      const listing = indexer.getListings({ listingIds: [listingId] })[0];
+      const result = await read(
+        'listing',
+        listingRegistry,
+        encodeCall(FUNCTION_SELECTORS.getListing, listingId),
+      );
+      if (!listing || !result) {
+        report.missing.push({
+          entity: 'listing',
+          id: listingId,
+          missingFrom: listing ? 'chain' : 'index',
+        });
+        continue;
+      }
+      const onChain = decodeListing(result);
+      const diffs = diffFields(listing, onChain);
+      for (const diff of diffs) {
+        report.mismatches.push({ entity: 'listing', id: listingId, ...diff });
+      }
+      if (options.repair && diffs.length > 0) {
+        // Nested policy and pricing fields are rewritten as a whole.
+        const keys = new Set(
+          diffs.map(({ field }) => field.split('.')[0] as keyof ListingOnChain),
+        );
+        indexer.repairListing(
+          listingId,
+          Object.fromEntries(Array.from(keys, (key) => [key, onChain[key]])),
+        );
+        report.repaired += 1;
+      }
+    }
+  }
+
+  return report;
+}
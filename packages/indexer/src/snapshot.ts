@@ -0,0 +1,206 @@
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import fs from 'node:fs/promises';
+import type { ChainSourceOptions } from './chain-source';
+import { ChainSource } from './chain-source';
+import type { IndexerOptions } from './indexer';
+import { Indexer } from './indexer';
+import { migratePersistedState } from './migrations';
+import type { PersistedState } from './store';
+import { writeFileAtomic } from './store';
+
+export type SnapshotOptions = {
+  /**
+   * Signs the snapshot with HMAC-SHA256 under this key instead of a plain
+   * SHA-256 checksum. Reading a signed snapshot requires the same key.
+   */
+  secret?: string;
+};
+
+export type IndexerSnapshot = {
+  schemaVersion: number;
+  /** Highest block applied; a bootstrapped indexer resumes after it. */
+  cursor: number;
+  checksum: {
+    algorithm: 'sha256' | 'hmac-sha256';
+    digest: string;
+  };
+  state: PersistedState;
+};
+
+export type SnapshotDifference = {
+  section: 'cursor' | 'listings' | 'tasks' | 'disputes' | 'agents' | 'events';
+  /** Record ID, or `blockNumber:logIndex` for events. */
+  key: string;
+  /** Null when the entry is missing from that side. */
+  snapshot: unknown;
+  replayed: unknown;
+};
+
+export type SnapshotVerification = {
+  cursor: number;
+  differences: SnapshotDifference[];
+};
+
+// The digest covers the header as well as the state so neither can be
+// swapped for another snapshot's without detection.
+function digest(
+  snapshot: Omit<IndexerSnapshot, 'checksum'>,
+  secret: string | undefined,
+) {
+  const body = JSON.stringify([
+    snapshot.schemaVersion,
+    snapshot.cursor,
+    snapshot.state,
+  ]);
+  const hash =
+    secret === undefined ? createHash('sha256') : createHmac('sha256', secret);
+  return hash.update(body).digest('hex');
+}
+
+export function createSnapshot(
+  indexer: Indexer,
+  options: SnapshotOptions = {},
+): IndexerSnapshot {
+  const state = indexer.exportState();
+  const unsigned = {
+    schemaVersion: state.schemaVersion,
+    cursor: state.lastProcessedBlock,
+    state,
+  };
+  return {
+    ...unsigned,
+    checksum: {
+      algorithm: options.secret === undefined ? 'sha256' : 'hmac-sha256',
+      digest: digest(unsigned, options.secret),
+    },
+  };
+}
+
+/**
+ * Checks the checksum or signature of a snapshot and upgrades its state to
+ * the current schema. Throws if the snapshot was altered or the key is wrong.
+ */
+export function openSnapshot(
+  snapshot: IndexerSnapshot,
+  options: SnapshotOptions = {},
+): PersistedState {
+  const expected = options.secret === undefined ? 'sha256' : 'hmac-sha256';
+  if (snapshot.checksum?.algorithm !== expected) {
+    throw new Error(
+      `Snapshot is checksummed with ${snapshot.checksum?.algorithm}; expected ${expected}`,
+    );
+  }
+  const actual = Buffer.from(digest(snapshot, options.secret), 'hex');
+  const recorded = Buffer.from(snapshot.checksum.digest, 'hex');
+  if (actual.length !== recorded.length || !timingSafeEqual(actual, recorded)) {
+    throw new Error('Snapshot checksum does not match its contents');
+  }
+  if (snapshot.state.lastProcessedBlock !== snapshot.cursor) {
+    throw new Error('Snapshot cursor does not match its state');
+  }
+  return migratePersistedState(snapshot.state);
+}
+
+export async function writeSnapshot(path: string, snapshot: IndexerSnapshot) {
+  await writeFileAtomic(path, JSON.stringify(snapshot));
+}
+
+export async function readSnapshot(path: string): Promise<IndexerSnapshot> {
+  return JSON.parse(await fs.readFile(path, 'utf8')) as IndexerSnapshot;
+}
+
+/**
+ * Builds an indexer from a verified snapshot. Point a `ChainSource` at it to
+ * catch up: sources start from the block after the indexer's cursor.
+ */
+export function bootstrapFromSnapshot(
+  snapshot: IndexerSnapshot,
+  options: IndexerOptions & SnapshotOptions = {},
+): Indexer {
+  return Indexer.fromState(openSnapshot(snapshot, options), options);
+}
+
+// Decoded and hand-built events list the same fields in different orders.
+const canonical = (value: unknown) =>
+  JSON.stringify(value, (_key, field: unknown) =>
+    field && typeof field === 'object' && !Array.isArray(field)
+      ? Object.fromEntries(
+          Object.entries(field).sort(([a], [b]) => a.localeCompare(b)),
+        )
+      : field,
+  );
+
+const sections = {
+  listings: (state: PersistedState) =>
+    state.listings.map(
+      // Curation is set off chain, so a replay never reproduces it.
+      (listing) =>
+        [String(listing.listingId), { ...listing, curation: null }] as const,
+    ),
+  tasks: (state: PersistedState) =>
+    state.tasks.map((task) => [String(task.taskId), task] as const),
+  disputes: (state: PersistedState) =>
+    state.disputes.map((dispute) => [String(dispute.taskId), dispute] as const),
+  agents: (state: PersistedState) =>
+    state.agents.map((agent) => [String(agent.agentId), agent] as const),
+  events: (state: PersistedState) =>
+    state.events.map(
+      (event) => [`${event.blockNumber}:${event.logIndex}`, event] as const,
+    ),
+};
+
+/**
+ * Compares the records and event log of a snapshot with those of `replayed`,
+ * an indexer rebuilt independently up to the same cursor.
+ */
+export function compareSnapshot(
+  snapshot: IndexerSnapshot,
+  replayed: Indexer,
+  options: SnapshotOptions = {},
+): SnapshotVerification {
+  const expected = openSnapshot(snapshot, options);
+  const actual = replayed.exportState();
+  const differences: SnapshotDifference[] = [];
+  if (expected.lastProcessedBlock !== actual.lastProcessedBlock) {
+    differences.push({
+      section: 'cursor',
+      key: 'lastProcessedBlock',
+      snapshot: expected.lastProcessedBlock,
+      replayed: actual.lastProcessedBlock,
+    });
+  }
+  for (const [section, entries] of Object.entries(sections)) {
+    const fromSnapshot = new Map<string, unknown>(entries(expected));
+    const fromReplay = new Map<string, unknown>(entries(actual));
+    const keys = new Set([...fromSnapshot.keys(), ...fromReplay.keys()]);
+    for (const key of keys) {
+      const left = fromSnapshot.get(key) ?? null;
+      const right = fromReplay.get(key) ?? null;
+      if (canonical(left) === canonical(right)) continue;
+      differences.push({
+        section: section as SnapshotDifference['section'],
+        key,
+        snapshot: left,
+        replayed: right,
+      });
+    }
+  }
+  return { cursor: expected.lastProcessedBlock, differences };
+}
+
+/**
+ * Replays the chain from genesis into a fresh in-memory indexer, stopping at
+ * the snapshot's cursor, and compares the result with the snapshot.
+ */
+export async function verifySnapshot(
+  snapshot: IndexerSnapshot,
+  source: Omit<ChainSourceOptions, 'toBlock'>,
+  options: SnapshotOptions = {},
+): Promise<SnapshotVerification> {
+  const replayed = new Indexer();
+  await new ChainSource(replayed, {
+    ...source,
+    toBlock: openSnapshot(snapshot, options).lastProcessedBlock,
+  }).poll();
+  return compareSnapshot(snapshot, replayed, options);
+}
@@ -0,0 +1,438 @@
+import Database from 'better-sqlite3';
+import type {
+  AgentRecord,
+  DisputeOutcome,
+  DisputeQuery,
+  DisputeRecord,
+  IndexerEvent,
+  ListingQuery,
+  ListingRecord,
+  TaskRecord,
+} from './indexer';
+import { eventAgentId, eventListingId, eventTaskId } from './store';
+import type {
+  AgentStoreQuery,
+  EventLogQuery,
+  IndexerStore,
+  SyncState,
+  TaskStoreQuery,
+} from './store';
+import { SCHEMA_VERSION, migratePersistedState } from './migrations';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS listings (
+    listing_id INTEGER PRIMARY KEY,
+    agent_id INTEGER NOT NULL,
+    active INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS listings_agent_id ON listings (agent_id);
+  CREATE TABLE IF NOT EXISTS tasks (
+    task_id INTEGER PRIMARY KEY,
+    agent_id INTEGER,
+    listing_id INTEGER,
+    buyer TEXT,
+    status TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS tasks_agent_id ON tasks (agent_id);
+  CREATE INDEX IF NOT EXISTS tasks_listing_id ON tasks (listing_id);
+  CREATE INDEX IF NOT EXISTS tasks_buyer ON tasks (buyer COLLATE NOCASE);
+  CREATE TABLE IF NOT EXISTS disputes (
+    task_id INTEGER PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS agents (
+    agent_id INTEGER PRIMARY KEY,
+    owner TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS agents_owner ON agents (owner);
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    task_id INTEGER,
+    listing_id INTEGER,
+    agent_id INTEGER,
+    data TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_task_id ON events (task_id);
+  CREATE INDEX IF NOT EXISTS events_listing_id ON events (listing_id);
+  CREATE TABLE IF NOT EXISTS applied_events (
+    event_key TEXT PRIMARY KEY
+  );
+  CREATE TABLE IF NOT EXISTS sync_state (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    data TEXT NOT NULL
+  );
+`;
+
+type DataRow = { data: string };
+
+// Databases written before the schema version was tracked in `user_version`
+// were created at this version.
+const UNTRACKED_SCHEMA_VERSION = 3;
+
+/**
+ * Stores each record as its own row, upserted as events are applied. Columns
+ * used for filtering are lifted out of the JSON payload so queries run in
+ * SQLite instead of scanning every record.
+ */
+export class SqliteStore implements IndexerStore {
+  private readonly db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+    this.addEventAgentColumn();
+    this.migrate();
+  }
+
+  async load() {}
+
+  async flush() {}
+
+  close() {
+    this.db.close();
+  }
+
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
+  getListing(listingId: number): ListingRecord | null {
+    const row = this.db
+      .prepare('SELECT data FROM listings WHERE listing_id = ?')
+      .get(listingId) as DataRow | undefined;
+    return row ? (JSON.parse(row.data) as ListingRecord) : null;
+  }
+
+  putListing(listing: ListingRecord) {
+    this.db
+      .prepare(
+        `INSERT INTO listings (listing_id, agent_id, active, data)
+         VALUES (@listingId, @agentId, @active, @data)
+         ON CONFLICT (listing_id) DO UPDATE SET
+           agent_id = excluded.agent_id,
+           active = excluded.active,
+           data = excluded.data`,
+      )
+      .run({
+        listingId: listing.listingId,
+        agentId: listing.agentId,
+        active: listing.active ? 1 : 0,
+        data: JSON.stringify(listing),
+      });
+  }
+
+  queryListings(query: ListingQuery): ListingRecord[] {
+    const clauses: string[] = [];
+    const params: (number | string)[] = [];
+    if (query.agentId !== undefined) {
+      clauses.push('agent_id = ?');
+      params.push(query.agentId);
+    }
+    if (query.active !== undefined) {
+      clauses.push('active = ?');
+      params.push(query.active ? 1 : 0);
+    }
+    if (query.listingIds) {
+      if (query.listingIds.length === 0) return [];
+      clauses.push(
+        `listing_id IN (${query.listingIds.map(() => '?').join(', ')})`,
+      );
+      params.push(...query.listingIds);
+    }
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT data FROM listings ${where} ORDER BY listing_id`)
+      .all(...params) as DataRow[];
+    return rows.map((row) => JSON.parse(row.data) as ListingRecord);
+  }
+
+  getTask(taskId: number): TaskRecord | null {
+    const row = this.db
+      .prepare('SELECT data FROM tasks WHERE task_id = ?')
+      .get(taskId) as DataRow | undefined;
+    return row ? (JSON.parse(row.data) as TaskRecord) : null;
+  }
+
+  putTask(task: TaskRecord) {
+    this.db
+      .prepare(
+        `INSERT INTO tasks (task_id, agent_id, listing_id, buyer, status, data)
+         VALUES (@taskId, @agentId, @listingId, @buyer, @status, @data)
+         ON CONFLICT (task_id) DO UPDATE SET
+           agent_id = excluded.agent_id,
+           listing_id = excluded.listing_id,
+           buyer = excluded.buyer,
+           status = excluded.status,
+           data = excluded.data`,
+      )
+      .run({
+        taskId: task.taskId,
+        agentId: task.agentId,
+        listingId: task.listingId,
+        buyer: task.buyer,
+        status: task.status,
+        data: JSON.stringify(task),
+      });
+  }
+
+  queryTasks(query: TaskStoreQuery): TaskRecord[] {
+    const clauses: string[] = [];
+    const params: (number | string)[] = [];
+    if (query.agentId !== undefined) {
+      clauses.push('agent_id = ?');
+      params.push(query.agentId);
+    }
+    if (query.listingId !== undefined) {
+      clauses.push('listing_id = ?');
+      params.push(query.listingId);
+    }
+    if (query.buyer !== undefined) {
+      clauses.push('buyer = ? COLLATE NOCASE');
+      params.push(query.buyer);
+    }
+    if (query.statuses) {
+      if (query.statuses.length === 0) return [];
+      clauses.push(`status IN (${query.statuses.map(() => '?').join(', ')})`);
+      params.push(...query.statuses);
+    }
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT data FROM tasks ${where} ORDER BY task_id`)
+      .all(...params) as DataRow[];
+    return rows.map((row) => JSON.parse(row.data) as TaskRecord);
+  }
+
+  getDispute(taskId: number): DisputeRecord | null {
+    const row = this.db
+      .prepare('SELECT data FROM disputes WHERE task_id = ?')
+      .get(taskId) as DataRow | undefined;
+    return row ? (JSON.parse(row.data) as DisputeRecord) : null;
+  }
+
+  putDispute(dispute: DisputeRecord) {
+    this.db
+      .prepare(
+        `INSERT INTO disputes (task_id, data) VALUES (?, ?)
+         ON CONFLICT (task_id) DO UPDATE SET data = excluded.data`,
+      )
+      .run(dispute.taskId, JSON.stringify(dispute));
+  }
+
+  // Disputes are few next to tasks, so their fields are read from the JSON
+  // payload rather than lifted into indexed columns.
+  queryDisputes(query: DisputeQuery): DisputeRecord[] {
+    const clauses: string[] = [];
+    const params: string[] = [];
+    if (query.state !== undefined) {
+      clauses.push(
+        query.state === 'OPEN'
+          ? "json_extract(data, '$.outcome') IS NULL"
+          : "json_extract(data, '$.outcome') IS NOT NULL",
+      );
+    }
+    if (query.outcome !== undefined) {
+      const outcomes = ([] as DisputeOutcome[]).concat(query.outcome);
+      if (outcomes.length === 0) return [];
+      clauses.push(
+        `json_extract(data, '$.outcome') IN (${outcomes.map(() => '?').join(', ')})`,
+      );
+      params.push(...outcomes);
+    }
+    if (query.resolver !== undefined) {
+      clauses.push("json_extract(data, '$.resolver') = ?");
+      params.push(query.resolver.toLowerCase());
+    }
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT data FROM disputes ${where} ORDER BY task_id`)
+      .all(...params) as DataRow[];
+    return rows.map((row) => JSON.parse(row.data) as DisputeRecord);
+  }
+
+  getAgent(agentId: number): AgentRecord | null {
+    const row = this.db
+      .prepare('SELECT data FROM agents WHERE agent_id = ?')
+      .get(agentId) as DataRow | undefined;
+    return row ? (JSON.parse(row.data) as AgentRecord) : null;
+  }
+
+  putAgent(agent: AgentRecord) {
+    this.db
+      .prepare(
+        `INSERT INTO agents (agent_id, owner, data) VALUES (?, ?, ?)
+         ON CONFLICT (agent_id) DO UPDATE SET
+           owner = excluded.owner,
+           data = excluded.data`,
+      )
+      .run(agent.agentId, agent.owner, JSON.stringify(agent));
+  }
+
+  queryAgents(query: AgentStoreQuery): AgentRecord[] {
+    const rows = (
+      query.owner === undefined
+        ? this.db.prepare('SELECT data FROM agents ORDER BY agent_id').all()
+        : this.db
+            .prepare(
+              'SELECT data FROM agents WHERE owner = ? ORDER BY agent_id',
+            )
+            .all(query.owner)
+    ) as DataRow[];
+    return rows.map((row) => JSON.parse(row.data) as AgentRecord);
+  }
+
+  appendEvent(event: IndexerEvent) {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO events
+           (block_number, log_index, timestamp, task_id, listing_id, agent_id,
+            data)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        event.blockNumber,
+        event.logIndex,
+        event.timestamp,
+        eventTaskId(event),
+        eventListingId(event),
+        eventAgentId(event),
+        JSON.stringify(event),
+      );
+  }
+
+  queryEvents(query: EventLogQuery): IndexerEvent[] {
+    const clauses: string[] = [];
+    const params: (number | string)[] = [];
+    if (query.taskId !== undefined) {
+      clauses.push('task_id = ?');
+      params.push(query.taskId);
+    }
+    if (query.listingId !== undefined) {
+      clauses.push('listing_id = ?');
+      params.push(query.listingId);
+    }
+    if (query.agentId !== undefined) {
+      clauses.push('agent_id = ?');
+      params.push(query.agentId);
+    }
+    if (query.toBlock !== undefined) {
+      clauses.push('block_number <= ?');
+      params.push(query.toBlock);
+    }
+    if (query.toTimestamp !== undefined) {
+      clauses.push('timestamp <= ?');
+      params.push(query.toTimestamp);
+    }
+    if (query.types) {
+      if (query.types.length === 0) return [];
+      clauses.push(
+        `json_extract(data, '$.type') IN (${query.types.map(() => '?').join(', ')})`,
+      );
+      params.push(...query.types);
+    }
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM events ${where} ORDER BY block_number, log_index`,
+      )
+      .all(...params) as DataRow[];
+    return rows.map((row) => JSON.parse(row.data) as IndexerEvent);
+  }
+
+  hasAppliedEvent(key: string) {
+    return (
+      this.db
+        .prepare('SELECT 1 FROM applied_events WHERE event_key = ?')
+        .get(key) !== undefined
+    );
+  }
+
+  markEventApplied(key: string) {
+    this.db
+      .prepare('INSERT OR IGNORE INTO applied_events (event_key) VALUES (?)')
+      .run(key);
+  }
+
+  getSyncState(): SyncState | null {
+    const row = this.db
+      .prepare('SELECT data FROM sync_state WHERE id = 1')
+      .get() as DataRow | undefined;
+    return row ? (JSON.parse(row.data) as SyncState) : null;
+  }
+
+  putSyncState(state: SyncState) {
+    this.db
+      .prepare(
+        `INSERT INTO sync_state (id, data) VALUES (1, ?)
+         ON CONFLICT (id) DO UPDATE SET data = excluded.data`,
+      )
+      .run(JSON.stringify(state));
+  }
+
+  /**
+   * Runs stored records through the same migration chain as JSON snapshots
+   * and rewrites them, so every row matches the current record shape.
+   */
+  private migrate() {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    if (version === SCHEMA_VERSION) return;
+    const isEmpty =
+      this.db
+        .prepare('SELECT 1 FROM listings UNION ALL SELECT 1 FROM tasks LIMIT 1')
+        .get() === undefined;
+    if (version === 0 && isEmpty) {
+      this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
+      return;
+    }
+
+    const readAll = (table: string) =>
+      (this.db.prepare(`SELECT data FROM ${table}`).all() as DataRow[]).map(
+        (row) => JSON.parse(row.data) as unknown,
+      );
+    const syncState = this.getSyncState();
+    const migrated = migratePersistedState({
+      ...syncState,
+      schemaVersion: version === 0 ? UNTRACKED_SCHEMA_VERSION : version,
+      listings: readAll('listings'),
+      tasks: readAll('tasks'),
+      disputes: readAll('disputes'),
+      agents: readAll('agents'),
+      events: readAll('events'),
+    });
+    this.transaction(() => {
+      migrated.listings.forEach((listing) => this.putListing(listing));
+      migrated.tasks.forEach((task) => this.putTask(task));
+      migrated.disputes.forEach((dispute) => this.putDispute(dispute));
+      migrated.agents.forEach((agent) => this.putAgent(agent));
+      this.db.exec('DELETE FROM events');
+      migrated.events.forEach((event) => this.appendEvent(event));
+      if (syncState) {
+        this.putSyncState({
+          pendingEvents: migrated.pendingEvents,
+          blockHashes: migrated.blockHashes,
+          headBlock: migrated.headBlock,
+          lastProcessedBlock: migrated.lastProcessedBlock,
+        });
+      }
+      this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    });
+  }
+
+  // `events.agent_id` arrived with schema 5; older databases get the column
+  // here and have it filled when `migrate` rewrites the event log.
+  private addEventAgentColumn() {
+    const columns = this.db.pragma('table_info(events)') as { name: string }[];
+    if (!columns.some((column) => column.name === 'agent_id')) {
+      this.db.exec('ALTER TABLE events ADD COLUMN agent_id INTEGER');
+    }
+    this.db.exec(
+      'CREATE INDEX IF NOT EXISTS events_agent_id ON events (agent_id)',
+    );
+  }
+}
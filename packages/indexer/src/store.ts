@@ -0,0 +1,388 @@
+import fs from 'node:fs/promises';
+import type {
+  AgentRecord,
+  DisputeOutcome,
+  DisputeQuery,
+  DisputeRecord,
+  IndexerEvent,
+  ListingQuery,
+  ListingRecord,
+  TaskRecord,
+  TaskStatus,
+} from './indexer';
+import { SCHEMA_VERSION, migratePersistedState } from './migrations';
+
+export type TaskStoreQuery = {
+  agentId?: number;
+  listingId?: number;
+  /** Lowercased buyer address; stored addresses match case-insensitively. */
+  buyer?: string;
+  statuses?: TaskStatus[];
+};
+
+export type AgentStoreQuery = {
+  /** Lowercased owner address. */
+  owner?: string;
+};
+
+export type EventLogQuery = {
+  taskId?: number;
+  listingId?: number;
+  /** Matches agent identity events only, not tasks or listings of the agent. */
+  agentId?: number;
+  /** Inclusive upper bound on `blockNumber`. */
+  toBlock?: number;
+  /** Inclusive upper bound on `timestamp`. */
+  toTimestamp?: number;
+  types?: IndexerEvent['type'][];
+};
+
+/** Ingestion bookkeeping that has to survive a restart alongside the records. */
+export type SyncState = {
+  pendingEvents: IndexerEvent[];
+  blockHashes: [number, string][];
+  headBlock: number;
+  lastProcessedBlock: number;
+};
+
+/**
+ * Backing storage for the `Indexer`. Reads and writes are synchronous so the
+ * indexer can apply events and answer queries without awaiting; `load` and
+ * `flush` bracket whatever I/O an implementation defers.
+ */
+export interface IndexerStore {
+  load(): Promise<void>;
+  flush(): Promise<void>;
+  transaction<T>(fn: () => T): T;
+  getListing(listingId: number): ListingRecord | null;
+  putListing(listing: ListingRecord): void;
+  queryListings(query: ListingQuery): ListingRecord[];
+  getTask(taskId: number): TaskRecord | null;
+  putTask(task: TaskRecord): void;
+  queryTasks(query: TaskStoreQuery): TaskRecord[];
+  getDispute(taskId: number): DisputeRecord | null;
+  putDispute(dispute: DisputeRecord): void;
+  queryDisputes(query: DisputeQuery): DisputeRecord[];
+  getAgent(agentId: number): AgentRecord | null;
+  putAgent(agent: AgentRecord): void;
+  queryAgents(query: AgentStoreQuery): AgentRecord[];
+  appendEvent(event: IndexerEvent): void;
+  queryEvents(query: EventLogQuery): IndexerEvent[];
+  hasAppliedEvent(key: string): boolean;
+  markEventApplied(key: string): void;
+  getSyncState(): SyncState | null;
+  putSyncState(state: SyncState): void;
+}
+
+export type PersistedState = {
+  schemaVersion: number;
+  listings: ListingRecord[];
+  tasks: TaskRecord[];
+  disputes: DisputeRecord[];
+  agents: AgentRecord[];
+  events: IndexerEvent[];
+  pendingEvents: IndexerEvent[];
+  blockHashes: [number, string][];
+  headBlock: number;
+  lastProcessedBlock: number;
+  appliedEventKeys: string[];
+};
+
+/**
+ * Writes to a sibling temp file, fsyncs it and renames it over `filePath`, so
+ * a crash leaves either the old file or the new one, never a partial write.
+ */
+export async function writeFileAtomic(filePath: string, data: string) {
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  const handle = await fs.open(tmpPath, 'w');
+  try {
+    await handle.writeFile(data);
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  try {
+    await fs.rename(tmpPath, filePath);
+  } catch (error) {
+    await fs.rm(tmpPath, { force: true });
+    throw error;
+  }
+}
+
+export const eventListingId = (event: IndexerEvent) =>
+  event.type === 'ListingCreated' || event.type === 'ListingUpdated'
+    ? event.listingId
+    : null;
+
+export const eventTaskId = (event: IndexerEvent) =>
+  'taskId' in event ? event.taskId : null;
+
+export const eventAgentId = (event: IndexerEvent) =>
+  event.type === 'AgentRegistered' ||
+  event.type === 'AgentURIUpdated' ||
+  event.type === 'Transfer'
+    ? event.agentId
+    : null;
+
+export function matchesTaskQuery(task: TaskRecord, query: TaskStoreQuery) {
+  if (query.agentId !== undefined && task.agentId !== query.agentId) {
+    return false;
+  }
+  if (query.listingId !== undefined && task.listingId !== query.listingId) {
+    return false;
+  }
+  if (query.buyer !== undefined && task.buyer?.toLowerCase() !== query.buyer) {
+    return false;
+  }
+  if (query.statuses && !query.statuses.includes(task.status)) {
+    return false;
+  }
+  return true;
+}
+
+export function matchesDisputeQuery(
+  dispute: DisputeRecord,
+  query: DisputeQuery,
+) {
+  if (query.state !== undefined) {
+    const state = dispute.outcome === null ? 'OPEN' : 'RESOLVED';
+    if (state !== query.state) return false;
+  }
+  if (query.outcome !== undefined) {
+    const outcomes = ([] as DisputeOutcome[]).concat(query.outcome);
+    if (dispute.outcome === null || !outcomes.includes(dispute.outcome)) {
+      return false;
+    }
+  }
+  if (
+    query.resolver !== undefined &&
+    dispute.resolver !== query.resolver.toLowerCase()
+  ) {
+    return false;
+  }
+  return true;
+}
+
+export function matchesEventQuery(event: IndexerEvent, query: EventLogQuery) {
+  if (query.taskId !== undefined && eventTaskId(event) !== query.taskId) {
+    return false;
+  }
+  if (
+    query.listingId !== undefined &&
+    eventListingId(event) !== query.listingId
+  ) {
+    return false;
+  }
+  if (query.agentId !== undefined && eventAgentId(event) !== query.agentId) {
+    return false;
+  }
+  if (query.toBlock !== undefined && event.blockNumber > query.toBlock) {
+    return false;
+  }
+  if (query.toTimestamp !== undefined && event.timestamp > query.toTimestamp) {
+    return false;
+  }
+  if (query.types && !query.types.includes(event.type)) {
+    return false;
+  }
+  return true;
+}
+
+export class MemoryStore implements IndexerStore {
+  protected listings = new Map<number, ListingRecord>();
+  protected tasks = new Map<number, TaskRecord>();
+  protected disputes = new Map<number, DisputeRecord>();
+  protected agents = new Map<number, AgentRecord>();
+  protected events: IndexerEvent[] = [];
+  protected appliedEventKeys = new Set<string>();
+  protected syncState: SyncState | null = null;
+  // Steps that undo each write of the open transaction, oldest first.
+  private undoLog: (() => void)[] | null = null;
+
+  async load() {}
+
+  async flush() {}
+
+  /**
+   * Undoes every write made by `fn` if it throws, like SQLite's rollback.
+   * Records are replaced rather than mutated by the indexer, so restoring
+   * the previous values is enough.
+   */
+  transaction<T>(fn: () => T): T {
+    if (this.undoLog) return fn();
+    const undoLog: (() => void)[] = [];
+    this.undoLog = undoLog;
+    try {
+      return fn();
+    } catch (error) {
+      undoLog.reverse().forEach((undo) => undo());
+      throw error;
+    } finally {
+      this.undoLog = null;
+    }
+  }
+
+  private recordPut<T>(records: Map<number, T>, id: number) {
+    if (!this.undoLog) return;
+    const previous = records.get(id);
+    this.undoLog.push(() =>
+      previous === undefined ? records.delete(id) : records.set(id, previous),
+    );
+  }
+
+  getListing(listingId: number) {
+    return this.listings.get(listingId) ?? null;
+  }
+
+  putListing(listing: ListingRecord) {
+    this.recordPut(this.listings, listing.listingId);
+    this.listings.set(listing.listingId, listing);
+  }
+
+  queryListings(query: ListingQuery): ListingRecord[] {
+    let listings = Array.from(this.listings.values());
+    if (query.agentId !== undefined) {
+      listings = listings.filter(
+        (listing) => listing.agentId === query.agentId,
+      );
+    }
+    if (query.active !== undefined) {
+      listings = listings.filter((listing) => listing.active === query.active);
+    }
+    if (query.listingIds) {
+      const lookup = new Set(query.listingIds);
+      listings = listings.filter((listing) => lookup.has(listing.listingId));
+    }
+    return listings.sort((a, b) => a.listingId - b.listingId);
+  }
+
+  getTask(taskId: number) {
+    return this.tasks.get(taskId) ?? null;
+  }
+
+  putTask(task: TaskRecord) {
+    this.recordPut(this.tasks, task.taskId);
+    this.tasks.set(task.taskId, task);
+  }
+
+  queryTasks(query: TaskStoreQuery): TaskRecord[] {
+    return Array.from(this.tasks.values())
+      .filter((task) => matchesTaskQuery(task, query))
+      .sort((a, b) => a.taskId - b.taskId);
+  }
+
+  getDispute(taskId: number) {
+    return this.disputes.get(taskId) ?? null;
+  }
+
+  putDispute(dispute: DisputeRecord) {
+    this.recordPut(this.disputes, dispute.taskId);
+    this.disputes.set(dispute.taskId, dispute);
+  }
+
+  queryDisputes(query: DisputeQuery): DisputeRecord[] {
+    return Array.from(this.disputes.values())
+      .filter((dispute) => matchesDisputeQuery(dispute, query))
+      .sort((a, b) => a.taskId - b.taskId);
+  }
+
+  getAgent(agentId: number) {
+    return this.agents.get(agentId) ?? null;
+  }
+
+  putAgent(agent: AgentRecord) {
+    this.recordPut(this.agents, agent.agentId);
+    this.agents.set(agent.agentId, agent);
+  }
+
+  queryAgents(query: AgentStoreQuery): AgentRecord[] {
+    return Array.from(this.agents.values())
+      .filter(
+        (agent) => query.owner === undefined || agent.owner === query.owner,
+      )
+      .sort((a, b) => a.agentId - b.agentId);
+  }
+
+  appendEvent(event: IndexerEvent) {
+    const length = this.events.length;
+    this.undoLog?.push(() => {
+      this.events.length = length;
+    });
+    this.events.push(event);
+  }
+
+  queryEvents(query: EventLogQuery): IndexerEvent[] {
+    return this.events.filter((event) => matchesEventQuery(event, query));
+  }
+
+  hasAppliedEvent(key: string) {
+    return this.appliedEventKeys.has(key);
+  }
+
+  markEventApplied(key: string) {
+    if (!this.appliedEventKeys.has(key)) {
+      this.undoLog?.push(() => this.appliedEventKeys.delete(key));
+    }
+    this.appliedEventKeys.add(key);
+  }
+
+  getSyncState() {
+    return this.syncState;
+  }
+
+  putSyncState(state: SyncState) {
+    const previous = this.syncState;
+    this.undoLog?.push(() => {
+      this.syncState = previous;
+    });
+    this.syncState = state;
+  }
+}
+
+/**
+ * Keeps everything in memory and atomically rewrites a single JSON file on
+ * `flush`. Older snapshots are upgraded through the migration chain on load.
+ */
+export class JsonFileStore extends MemoryStore {
+  constructor(private readonly path: string) {
+    super();
+  }
+
+  async load() {
+    const data = await fs.readFile(this.path, 'utf8');
+    const parsed = migratePersistedState(JSON.parse(data));
+    this.listings = new Map(
+      parsed.listings.map((listing) => [listing.listingId, listing]),
+    );
+    this.tasks = new Map(parsed.tasks.map((task) => [task.taskId, task]));
+    this.disputes = new Map(
+      parsed.disputes.map((dispute) => [dispute.taskId, dispute]),
+    );
+    this.agents = new Map(parsed.agents.map((agent) => [agent.agentId, agent]));
+    this.events = parsed.events;
+    this.appliedEventKeys = new Set(parsed.appliedEventKeys);
+    this.syncState = {
+      pendingEvents: parsed.pendingEvents,
+      blockHashes: parsed.blockHashes,
+      headBlock: parsed.headBlock,
+      lastProcessedBlock: parsed.lastProcessedBlock,
+    };
+  }
+
+  async flush() {
+    const payload: PersistedState = {
+      schemaVersion: SCHEMA_VERSION,
+      listings: Array.from(this.listings.values()),
+      tasks: Array.from(this.tasks.values()),
+      disputes: Array.from(this.disputes.values()),
+      agents: Array.from(this.agents.values()),
+      events: this.events,
+      pendingEvents: this.syncState?.pendingEvents ?? [],
+      blockHashes: this.syncState?.blockHashes ?? [],
+      headBlock: this.syncState?.headBlock ?? -1,
+      lastProcessedBlock: this.syncState?.lastProcessedBlock ?? -1,
+      appliedEventKeys: Array.from(this.appliedEventKeys),
+    };
+    await writeFileAtomic(this.path, JSON.stringify(payload, null, 2));
+  }
+}
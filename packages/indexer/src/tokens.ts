@@ -0,0 +1,135 @@
+import { AbiReader, JsonRpcClient, decodeBytes32String } from './chain-source';
+import type { Indexer } from './indexer';
+
+export type TokenInfo = {
+  /** Lowercased ERC-20 address, as in `ListingRecord.pricing.paymentToken`. */
+  address: string;
+  symbol: string;
+  decimals: number;
+  /**
+   * Value of one whole token in a reference currency shared by every token,
+   * e.g. USD. Only ever set from config; search uses it to compare prices
+   * across tokens.
+   */
+  referencePrice?: number;
+};
+
+export type TokenSyncOptions = {
+  rpcUrl: string;
+  /** Called for tokens whose metadata could not be read; they are skipped. */
+  onError?: (error: unknown, address: string) => void;
+};
+
+// First four bytes of keccak256 of the ERC-20 metadata views.
+export const ERC20_SELECTORS = {
+  symbol: '0x95d89b41',
+  decimals: '0x313ce567',
+} as const;
+
+function checkTokenInfo(token: TokenInfo): TokenInfo {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(token.address)) {
+    throw new Error(`Invalid token address ${token.address}`);
+  }
+  if (
+    !Number.isInteger(token.decimals) ||
+    token.decimals < 0 ||
+    token.decimals > 255
+  ) {
+    throw new Error(
+      `Invalid decimals ${token.decimals} for token ${token.address}`,
+    );
+  }
+  if (
+    token.referencePrice !== undefined &&
+    !(Number.isFinite(token.referencePrice) && token.referencePrice > 0)
+  ) {
+    throw new Error(
+      `Invalid reference price ${token.referencePrice} for token ${token.address}`,
+    );
+  }
+  return { ...token, address: token.address.toLowerCase() };
+}
+
+/**
+ * Reads `symbol()` and `decimals()` from an ERC-20 contract. Symbols
+ * returned as `bytes32`, as some early tokens do, are decoded too.
+ */
+export async function fetchTokenInfo(
+  rpcUrl: string,
+  address: string,
+): Promise<TokenInfo> {
+  const rpc = new JsonRpcClient(rpcUrl);
+  const call = (data: string) =>
+    rpc.call<string>('eth_call', [{ to: address, data }, 'latest']);
+  const [symbolData, decimalsData] = await Promise.all([
+    call(ERC20_SELECTORS.symbol),
+    call(ERC20_SELECTORS.decimals),
+  ]);
+  const symbol =
+    symbolData.replace(/^0x/, '').length === 64
+      ? decodeBytes32String(symbolData)
+      : new AbiReader(symbolData).string(0);
+  return checkTokenInfo({
+    address,
+    symbol,
+    decimals: new AbiReader(decimalsData).uint(0),
+  });
+}
+
+/**
+ * Symbol, decimals and optional reference price of each payment token,
+ * keyed by address. Seed it from config and `sync` it against an indexer to
+ * read the tokens config left out from chain.
+ */
+export class TokenRegistry {
+  private readonly tokens = new Map<string, TokenInfo>();
+
+  constructor(tokens: TokenInfo[] = []) {
+    tokens.forEach((token) => this.register(token));
+  }
+
+  /** Adds or replaces a token. Throws on malformed metadata. */
+  register(token: TokenInfo) {
+    const checked = checkTokenInfo(token);
+    this.tokens.set(checked.address, checked);
+  }
+
+  /** Matched case-insensitively; null for tokens never registered. */
+  get(address: string): TokenInfo | null {
+    return this.tokens.get(address.toLowerCase()) ?? null;
+  }
+
+  getAll(): TokenInfo[] {
+    return Array.from(this.tokens.values()).sort((a, b) =>
+      a.address.localeCompare(b.address),
+    );
+  }
+
+  /**
+   * Fetches metadata for every payment token used by `indexer`'s listings
+   * that is not registered yet. Returns the tokens it added.
+   */
+  async sync(
+    indexer: Indexer,
+    options: TokenSyncOptions,
+  ): Promise<TokenInfo[]> {
+    const missing = new Set<string>();
+    for (const listing of indexer.getListings()) {
+      const address = listing.pricing?.paymentToken.toLowerCase();
+      if (address !== undefined && !this.tokens.has(address)) {
+        missing.add(address);
+      }
+    }
+    const added: TokenInfo[] = [];
+    for (const address of missing) {
+      try {
+        const token = await fetchTokenInfo(options.rpcUrl, address);
+        this.tokens.set(token.address, token);
+        added.push(token);
+      } catch (error) {
+        options.onError?.(error, address);
+      }
+    }
+    return added;
+  }
+}
@@ -0,0 +1,425 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as http from 'node:http';
+import type { RpcLog } from '../src/chain-source';
+import { ChainSource, EVENT_TOPICS, decodeLog } from '../src/chain-source';
+import { Indexer } from '../src/indexer';
+
+const AGENT_REGISTRY = '0x00000000000000000000000000000000000000f6';
+const LISTING_REGISTRY = '0x00000000000000000000000000000000000000a1';
+const TASK_MARKET = '0x00000000000000000000000000000000000000b2';
+const DISPUTE_MODULE = '0x00000000000000000000000000000000000000c3';
+const BUYER = '0x00000000000000000000000000000000000000d4';
+const TOKEN = '0x00000000000000000000000000000000000000e5';
+
+const word = (value: number | bigint | boolean) =>
+  BigInt(typeof value === 'boolean' ? Number(value) : value)
+    .toString(16)
+    .padStart(64, '0');
+const addressWord = (address: string) =>
+  address.replace(/^0x/, '').padStart(64, '0');
+const topic = (value: number | string) =>
+  `0x${typeof value === 'number' ? word(value) : addressWord(value)}`;
+
+type AbiValue =
+  | { kind: 'uint'; value: number }
+  | { kind: 'bool'; value: boolean }
+  | { kind: 'address'; value: string }
+  | { kind: 'bytes32'; value: string }
+  | { kind: 'string'; value: string };
+
+function encode(values: AbiValue[]): string {
+  const head: string[] = [];
+  const tail: string[] = [];
+  let tailOffset = values.length * 32;
+  for (const entry of values) {
+    if (entry.kind === 'string') {
+      const bytes = Buffer.from(entry.value, 'utf8').toString('hex');
+      const padded = bytes.padEnd(Math.ceil(bytes.length / 64) * 64, '0');
+      head.push(word(tailOffset));
+      tail.push(word(bytes.length / 2) + padded);
+      tailOffset += 32 + padded.length / 2;
+    } else if (entry.kind === 'address') {
+      head.push(addressWord(entry.value));
+    } else if (entry.kind === 'bytes32') {
+      head.push(entry.value.replace(/^0x/, '').padEnd(64, '0'));
+    } else {
+      head.push(word(entry.value));
+    }
+  }
+  return `0x${head.join('')}${tail.join('')}`;
+}
+
+const log = (
+  address: string,
+  topics: string[],
+  data: string,
+  blockNumber: number,
+  logIndex: number,
+): RpcLog => ({
+  address,
+  topics,
+  data,
+  blockNumber: `0x${blockNumber.toString(16)}`,
+  blockHash: `0x${word(blockNumber + 1000)}`,
+  logIndex: `0x${logIndex.toString(16)}`,
+});
+
+const listingCreatedLog = log(
+  LISTING_REGISTRY,
+  [EVENT_TOPICS.ListingCreated, topic(1), topic(7)],
+  encode([
+    { kind: 'string', value: 'ipfs://listing-1' },
+    { kind: 'address', value: TOKEN },
+    { kind: 'uint', value: 100 },
+    { kind: 'bytes32', value: Buffer.from('LOC').toString('hex') },
+    { kind: 'uint', value: 10 },
+    { kind: 'uint', value: 1 },
+    { kind: 'uint', value: 50 },
+    { kind: 'bool', value: false },
+    { kind: 'uint', value: 3600 },
+    { kind: 'uint', value: 7200 },
+    { kind: 'uint', value: 86400 },
+    { kind: 'uint', value: 500 },
+    { kind: 'bool', value: true },
+  ]),
+  1,
+  0,
+);
+
+const taskPostedLog = log(
+  TASK_MARKET,
+  [EVENT_TOPICS.TaskPosted, topic(5), topic(1), topic(7)],
+  encode([
+    { kind: 'address', value: BUYER },
+    { kind: 'string', value: 'ipfs://task-5' },
+    { kind: 'uint', value: 4 },
+  ]),
+  2,
+  0,
+);
+
+const quoteProposedLog = log(
+  TASK_MARKET,
+  [EVENT_TOPICS.QuoteProposed, topic(5)],
+  encode([
+    { kind: 'uint', value: 4 },
+    { kind: 'uint', value: 140 },
+    { kind: 'uint', value: 0 },
+  ]),
+  2,
+  1,
+);
+
+const quoteAcceptedLog = log(
+  TASK_MARKET,
+  [EVENT_TOPICS.QuoteAccepted, topic(5)],
+  '0x',
+  2,
+  2,
+);
+
+const deliverableSubmittedLog = log(
+  TASK_MARKET,
+  [EVENT_TOPICS.DeliverableSubmitted, topic(5)],
+  encode([
+    { kind: 'string', value: 'ipfs://artifact-5' },
+    { kind: 'bytes32', value: 'ab'.repeat(32) },
+  ]),
+  3,
+  0,
+);
+
+const disputeOpenedLog = log(
+  DISPUTE_MODULE,
+  [EVENT_TOPICS.DisputeOpened, topic(5), topic(BUYER)],
+  encode([{ kind: 'string', value: 'ipfs://dispute-5' }]),
+  3,
+  1,
+);
+
+describe('decodeLog', () => {
+  const addresses = {
+    agentRegistry: AGENT_REGISTRY,
+    listingRegistry: LISTING_REGISTRY,
+    taskMarket: TASK_MARKET,
+    disputeModule: DISPUTE_MODULE,
+  };
+
+  it('decodes ListingCreated into the indexer event shape', () => {
+    expect(decodeLog(listingCreatedLog, addresses, 1000)).toEqual({
+      type: 'ListingCreated',
+      blockNumber: 1,
+      logIndex: 0,
+      timestamp: 1000,
+      blockHash: `0x${word(1001)}`,
+      listingId: 1,
+      agentId: 7,
+      listingURI: 'ipfs://listing-1',
+      pricing: {
+        paymentToken: TOKEN,
+        basePrice: '100',
+        unitType: 'LOC',
+        unitPrice: '10',
+        minUnits: 1,
+        maxUnits: 50,
+        quoteRequired: false,
+      },
+      policy: {
+        challengeWindowSec: 3600,
+        postDisputeWindowSec: 7200,
+        deliveryWindowSec: 86400,
+        sellerBondBps: 500,
+      },
+      active: true,
+    });
+  });
+
+  it('keeps token amounts above 2^53 exact', () => {
+    const funded = log(
+      TASK_MARKET,
+      [EVENT_TOPICS.TaskFunded, topic(5)],
+      `0x${word(10n ** 24n + 1n)}`,
+      2,
+      0,
+    );
+    expect(decodeLog(funded, addresses, 20)).toMatchObject({
+      type: 'TaskFunded',
+      taskId: 5,
+      amount: '1000000000000000000000001',
+    });
+  });
+
+  it('decodes agent NFT transfers but not token transfers', () => {
+    const transfer = log(
+      AGENT_REGISTRY,
+      [EVENT_TOPICS.Transfer, topic(BUYER), topic(TOKEN), topic(7)],
+      '0x',
+      4,
+      2,
+    );
+    expect(decodeLog(transfer, addresses, 40)).toMatchObject({
+      type: 'Transfer',
+      agentId: 7,
+      from: BUYER,
+      to: TOKEN,
+    });
+    expect(
+      decodeLog({ ...transfer, address: TOKEN }, addresses, 40),
+    ).toBeNull();
+  });
+
+  it('decodes resolver set updates from the dispute module', () => {
+    const updated = log(
+      DISPUTE_MODULE,
+      [EVENT_TOPICS.ResolverUpdated, topic(BUYER)],
+      `0x${word(false)}`,
+      6,
+      0,
+    );
+    expect(decodeLog(updated, addresses, 60)).toMatchObject({
+      type: 'ResolverUpdated',
+      resolver: BUYER,
+      allowed: false,
+    });
+  });
+
+  it('ignores logs from unexpected contracts and unknown topics', () => {
+    expect(
+      decodeLog({ ...taskPostedLog, address: DISPUTE_MODULE }, addresses, 0),
+    ).toBeNull();
+    expect(
+      decodeLog(
+        {
+          ...taskPostedLog,
+          topics: [`0x${word(1)}`, ...taskPostedLog.topics.slice(1)],
+        },
+        addresses,
+        0,
+      ),
+    ).toBeNull();
+  });
+});
+
+describe('ChainSource', () => {
+  let server: http.Server | null = null;
+  let rpcUrl = '';
+  let head = 3;
+  let forkOffset = 0;
+  let logs: RpcLog[] = [];
+  const logRequests: { fromBlock: string; toBlock: string }[] = [];
+  const hashFor = (block: number) => `0x${word(block + 1000 + forkOffset)}`;
+
+  beforeEach(async () => {
+    head = 3;
+    forkOffset = 0;
+    logs = [
+      listingCreatedLog,
+      taskPostedLog,
+      quoteProposedLog,
+      quoteAcceptedLog,
+      deliverableSubmittedLog,
+      disputeOpenedLog,
+    ];
+    logRequests.length = 0;
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const request = JSON.parse(body) as {
+          id: number;
+          method: string;
+          params: unknown[];
+        };
+        let result: unknown = null;
+        if (request.method === 'eth_blockNumber') {
+          result = `0x${head.toString(16)}`;
+        } else if (request.method === 'eth_getLogs') {
+          const filter = request.params[0] as {
+            fromBlock: string;
+            toBlock: string;
+          };
+          logRequests.push(filter);
+          const from = Number(filter.fromBlock);
+          const to = Number(filter.toBlock);
+          result = logs.filter((entry) => {
+            const block = Number(entry.blockNumber);
+            return block >= from && block <= to;
+          });
+        } else if (request.method === 'eth_getBlockByNumber') {
+          const block = Number(request.params[0]);
+          result = {
+            hash: hashFor(block),
+            timestamp: `0x${(block * 100).toString(16)}`,
+          };
+        }
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id, result }));
+      });
+    });
+
+    await new Promise<void>((resolve) => {
+      server?.listen(0, '127.0.0.1', () => resolve());
+    });
+
+    const address = server?.address();
+    if (typeof address === 'object' && address?.port) {
+      rpcUrl = `http://127.0.0.1:${address.port}`;
+    }
+  });
+
+  afterEach(async () => {
+    if (!server) return;
+    await new Promise<void>((resolve) => server?.close(() => resolve()));
+    server = null;
+    rpcUrl = '';
+  });
+
+  it('ingests decoded logs in block-range batches', async () => {
+    const indexer = new Indexer();
+    const source = new ChainSource(indexer, {
+      rpcUrl,
+      addresses: {
+        listingRegistry: LISTING_REGISTRY,
+        taskMarket: TASK_MARKET,
+        disputeModule: DISPUTE_MODULE,
+      },
+      fromBlock: 1,
+      batchSize: 2,
+    });
+
+    const ingested = await source.poll();
+    expect(ingested).toBe(6);
+    expect(source.cursor).toBe(4);
+    expect(logRequests).toEqual([
+      expect.objectContaining({ fromBlock: '0x1', toBlock: '0x2' }),
+      expect.objectContaining({ fromBlock: '0x3', toBlock: '0x3' }),
+    ]);
+
+    const listing = indexer.getListings({ listingIds: [1] })[0];
+    expect(listing?.createdAt).toBe(100);
+    expect(listing?.pricing?.unitType).toBe('LOC');
+
+    const [task] = indexer.getTasksByAgent(7);
+    expect(task?.taskId).toBe(5);
+    expect(task?.buyer).toBe(BUYER);
+    expect(task?.postedAt).toBe(200);
+    expect(task?.status).toBe('DISPUTED');
+    expect(task?.disputedAt).toBe(300);
+
+    expect(await source.poll()).toBe(0);
+    expect(logRequests).toHaveLength(2);
+  });
+
+  it('skips a log it cannot decode and keeps indexing', async () => {
+    logs.push(
+      log(
+        DISPUTE_MODULE,
+        [EVENT_TOPICS.DisputeResolved, topic(5), topic(BUYER)],
+        encode([
+          { kind: 'uint', value: 9 },
+          { kind: 'string', value: 'ipfs://resolution-5' },
+        ]),
+        3,
+        2,
+      ),
+    );
+    const errors: unknown[] = [];
+    const indexer = new Indexer();
+    const source = new ChainSource(indexer, {
+      rpcUrl,
+      addresses: {
+        listingRegistry: LISTING_REGISTRY,
+        taskMarket: TASK_MARKET,
+        disputeModule: DISPUTE_MODULE,
+      },
+      fromBlock: 1,
+      onError: (error) => errors.push(error),
+    });
+
+    expect(await source.poll()).toBe(6);
+    expect(source.cursor).toBe(4);
+    expect(errors).toEqual([
+      new Error('Skipped log 2 in block 3: Unknown dispute outcome 9'),
+    ]);
+    expect(indexer.getTask(5)?.status).toBe('DISPUTED');
+    expect(indexer.getDispute(5)?.outcome).toBeNull();
+  });
+
+  it('rolls back unconfirmed blocks and replays the canonical chain', async () => {
+    const indexer = new Indexer({ confirmations: 2 });
+    const source = new ChainSource(indexer, {
+      rpcUrl,
+      addresses: {
+        listingRegistry: LISTING_REGISTRY,
+        taskMarket: TASK_MARKET,
+        disputeModule: DISPUTE_MODULE,
+      },
+      fromBlock: 1,
+    });
+
+    await source.poll();
+    expect(indexer.getListings()).toHaveLength(1);
+    expect(indexer.getTasksByAgent(7)).toHaveLength(0);
+    expect(indexer.getUnconfirmedBlocks().map((b) => b.blockNumber)).toEqual([
+      2, 3,
+    ]);
+
+    // Blocks 2+ are replaced: the task now lands in block 3 and the dispute
+    // never happened.
+    forkOffset = 500;
+    logs = [
+      listingCreatedLog,
+      { ...taskPostedLog, blockNumber: '0x3', blockHash: hashFor(3) },
+    ];
+    head = 5;
+
+    await source.poll();
+    const [task] = indexer.getTasksByAgent(7);
+    expect(task?.status).toBe('OPEN');
+    expect(task?.postedAt).toBe(300);
+    expect(task?.disputedAt).toBeNull();
+    expect(indexer.getUnconfirmedBlocks().map((b) => b.blockNumber)).toEqual([
+      5,
+    ]);
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, expect, it } from 'vitest';
+import type { IndexerChange } from '../src/change-feed';
+import { MultiIndexer } from '../src/deployments';
+import type { IndexerEvent, ListingCreatedEvent } from '../src/indexer';
+import { Indexer } from '../src/indexer';
+
+const TESTNET = {
+  chainId: 84532,
+  address: '0x00000000000000000000000000000000000000A1',
+};
+const MAINNET = {
+  chainId: 8453,
+  address: '0x00000000000000000000000000000000000000b2',
+};
+const BUYER = '0x00000000000000000000000000000000000000d4';
+
+const listing = (listingId: number, unitType: string): ListingCreatedEvent => ({
+  type: 'ListingCreated',
+  blockNumber: 1,
+  logIndex: listingId,
+  timestamp: 10,
+  listingId,
+  agentId: 1,
+  listingURI: `ipfs://listing-${listingId}`,
+  pricing: {
+    paymentToken: '0xToken',
+    basePrice: '100',
+    unitType,
+    unitPrice: '10',
+    minUnits: 1,
+    maxUnits: 100,
+    quoteRequired: false,
+  },
+  policy: {
+    challengeWindowSec: 3600,
+    postDisputeWindowSec: 7200,
+    deliveryWindowSec: 86400,
+    sellerBondBps: 0,
+  },
+  active: true,
+});
+
+// Task 1 of listing 1, accepted and submitted; disputed when `disputed`.
+const task = (disputed: boolean): IndexerEvent[] => [
+  {
+    type: 'TaskPosted',
+    blockNumber: 2,
+    logIndex: 0,
+    timestamp: 100,
+    taskId: 1,
+    listingId: 1,
+    agentId: 1,
+    buyer: BUYER,
+    taskURI: 'ipfs://task-1',
+    proposedUnits: 10,
+  },
+  {
+    type: 'TaskAccepted',
+    blockNumber: 2,
+    logIndex: 1,
+    timestamp: 110,
+    taskId: 1,
+  },
+  {
+    type: 'TaskFunded',
+    blockNumber: 2,
+    logIndex: 2,
+    timestamp: 120,
+    taskId: 1,
+    amount: '200',
+  },
+  {
+    type: 'QuoteAccepted',
+    blockNumber: 2,
+    logIndex: 3,
+    timestamp: 130,
+    taskId: 1,
+  },
+  {
+    type: 'DeliverableSubmitted',
+    blockNumber: 3,
+    logIndex: 0,
+    timestamp: 200,
+    taskId: 1,
+    artifactURI: 'ipfs://artifact-1',
+    artifactHash: '0xhash1',
+  },
+  ...(disputed
+    ? [
+        {
+          type: 'DisputeOpened',
+          blockNumber: 3,
+          logIndex: 1,
+          timestamp: 210,
+          taskId: 1,
+          buyer: BUYER,
+          disputeURI: 'ipfs://dispute-1',
+        } as const,
+        {
+          type: 'DisputeResolved',
+          blockNumber: 4,
+          logIndex: 0,
+          timestamp: 300,
+          taskId: 1,
+          resolver: '0xResolver',
+          outcome: 'BUYER_WINS',
+          resolutionURI: 'ipfs://resolution-1',
+        } as const,
+      ]
+    : []),
+];
+
+function setup() {
+  const testnet = new Indexer();
+  testnet.ingest([listing(1, 'LOC'), listing(2, 'HOUR'), ...task(true)]);
+  const mainnet = new Indexer();
+  mainnet.ingest([listing(1, 'PAGE'), ...task(false)]);
+  const deployments = new MultiIndexer([
+    { ...TESTNET, indexer: testnet },
+    { ...MAINNET, indexer: mainnet },
+  ]);
+  return { testnet, mainnet, deployments };
+}
+
+const testnetId = (id: number) =>
+  `84532:${TESTNET.address.toLowerCase()}:${id}`;
+const mainnetId = (id: number) => `8453:${MAINNET.address}:${id}`;
+
+describe('MultiIndexer', () => {
+  it('namespaces records by chain and contract address', () => {
+    const { deployments } = setup();
+
+    expect(
+      deployments
+        .getListings()
+        .map((record) => [record.id, record.pricing?.unitType]),
+    ).toEqual([
+      [mainnetId(1), 'PAGE'],
+      [testnetId(1), 'LOC'],
+      [testnetId(2), 'HOUR'],
+    ]);
+    expect(
+      deployments.getListings({ chainId: 84532, listingIds: [1] }),
+    ).toMatchObject([
+      {
+        id: testnetId(1),
+        chainId: 84532,
+        address: TESTNET.address.toLowerCase(),
+      },
+    ]);
+    expect(
+      deployments.getListings({
+        address: MAINNET.address.toUpperCase().replace('0X', '0x'),
+      }),
+    ).toHaveLength(1);
+
+    expect(deployments.getTask(testnetId(1))).toMatchObject({
+      taskId: 1,
+      status: 'DISPUTED',
+    });
+    expect(deployments.getTask(mainnetId(1))).toMatchObject({
+      taskId: 1,
+      status: 'SUBMITTED',
+    });
+    expect(deployments.getDispute(testnetId(1))).toMatchObject({
+      outcome: 'BUYER_WINS',
+    });
+    expect(deployments.getDispute(mainnetId(1))).toBeNull();
+    expect(deployments.getTask(`1:${MAINNET.address}:1`)).toBeNull();
+    expect(() => deployments.getTask('1')).toThrow('Invalid composite ID');
+  });
+
+  it('computes metrics scoped to one deployment or across all of them', () => {
+    const { deployments } = setup();
+
+    expect(deployments.getAgentMetrics(testnetId(1))).toMatchObject({
+      agentId: 1,
+      disputeCount: 1,
+      buyerWinCount: 1,
+    });
+    expect(deployments.getAgentMetrics(mainnetId(1))).toMatchObject({
+      disputeCount: 0,
+      buyerWinCount: 0,
+    });
+
+    const market = deployments.getMarketMetrics();
+    expect(market).toMatchObject({
+      postedCount: 2,
+      submittedCount: 2,
+      disputeCount: 1,
+      buyerWinCount: 1,
+      disputeLossRate: 0.5,
+    });
+    expect(deployments.getMarketMetrics({}, { chainId: 8453 })).toMatchObject({
+      postedCount: 1,
+      disputeCount: 0,
+    });
+
+    expect(
+      deployments.getBuyerMetrics(BUYER.toUpperCase().replace('0X', '0x')),
+    ).toMatchObject({
+      buyer: BUYER,
+      postedCount: 2,
+      disputeCount: 1,
+      fundedVolume: '400',
+    });
+  });
+
+  it('forwards changes with the deployment that committed them', () => {
+    const { mainnet, deployments } = setup();
+    const received: [IndexerChange[], unknown][] = [];
+    const unsubscribe = deployments.subscribe(
+      (changes, deployment) => received.push([changes, deployment]),
+      { entity: 'listing' },
+    );
+
+    mainnet.ingest([{ ...listing(2, 'LOC'), blockNumber: 5 }]);
+    expect(received).toHaveLength(1);
+    expect(received[0]?.[0].map((change) => change.id)).toEqual([2]);
+    expect(received[0]?.[1]).toEqual(MAINNET);
+
+    unsubscribe();
+    mainnet.ingest([{ ...listing(3, 'LOC'), blockNumber: 6 }]);
+    expect(received).toHaveLength(1);
+  });
+
+  it('rejects a deployment registered twice', () => {
+    const indexer = new Indexer();
+    expect(
+      () =>
+        new MultiIndexer([
+          { ...TESTNET, indexer },
+          { ...TESTNET, address: TESTNET.address.toLowerCase(), indexer },
+        ]),
+    ).toThrow('registered twice');
+  });
+});
@@ -0,0 +1,243 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { DisputeResolvedEvent, IndexerEvent } from '../src/indexer';
+import { Indexer } from '../src/indexer';
+import { SqliteStore } from '../src/sqlite-store';
+import { MemoryStore } from '../src/store';
+
+const ALICE = '0x00000000000000000000000000000000000000A1';
+const BOB = '0x00000000000000000000000000000000000000b2';
+const BUYER = '0x00000000000000000000000000000000000000d4';
+
+const resolverUpdated = (
+  blockNumber: number,
+  timestamp: number,
+  resolver: string,
+  allowed: boolean,
+): IndexerEvent => ({
+  type: 'ResolverUpdated',
+  blockNumber,
+  logIndex: 0,
+  timestamp,
+  resolver,
+  allowed,
+});
+
+// Task `taskId` posted, funded and submitted, then disputed at `openedAt`
+// and, when `resolution` is given, resolved.
+const disputedTask = (
+  taskId: number,
+  openedAt: number,
+  resolution?: {
+    resolver: string;
+    outcome: DisputeResolvedEvent['outcome'];
+    resolvedAt: number;
+  },
+): IndexerEvent[] => {
+  const base = { blockNumber: 10 + taskId, taskId };
+  return [
+    {
+      type: 'TaskPosted',
+      ...base,
+      logIndex: 0,
+      timestamp: 100,
+      listingId: 1,
+      agentId: 1,
+      buyer: BUYER,
+      taskURI: `ipfs://task-${taskId}`,
+      proposedUnits: 1,
+    },
+    { type: 'TaskAccepted', ...base, logIndex: 1, timestamp: 110 },
+    {
+      type: 'TaskFunded',
+      ...base,
+      logIndex: 2,
+      timestamp: 120,
+      amount: '1000',
+    },
+    { type: 'QuoteAccepted', ...base, logIndex: 3, timestamp: 120 },
+    {
+      type: 'DeliverableSubmitted',
+      ...base,
+      logIndex: 4,
+      timestamp: 200,
+      artifactURI: 'ipfs://artifact',
+      artifactHash: '0xhash',
+    },
+    {
+      type: 'DisputeOpened',
+      ...base,
+      logIndex: 5,
+      timestamp: openedAt,
+      buyer: BUYER,
+      disputeURI: `ipfs://dispute-${taskId}`,
+    },
+    ...(resolution
+      ? [
+          {
+            type: 'DisputeResolved',
+            ...base,
+            logIndex: 6,
+            timestamp: resolution.resolvedAt,
+            resolver: resolution.resolver,
+            outcome: resolution.outcome,
+            resolutionURI: `ipfs://resolution-${taskId}`,
+          } as const,
+        ]
+      : []),
+  ];
+};
+
+const events: IndexerEvent[] = [
+  resolverUpdated(1, 10, ALICE, true),
+  resolverUpdated(2, 20, BOB, true),
+  // A repeated grant does not start a second term.
+  resolverUpdated(3, 30, BOB, true),
+  ...disputedTask(1, 1000, {
+    resolver: ALICE,
+    outcome: 'SELLER_WINS',
+    resolvedAt: 1600,
+  }),
+  ...disputedTask(2, 1000, {
+    resolver: BOB,
+    outcome: 'BUYER_WINS',
+    resolvedAt: 3000,
+  }),
+  ...disputedTask(3, 1200, {
+    resolver: ALICE,
+    outcome: 'SPLIT',
+    resolvedAt: 1400,
+  }),
+  ...disputedTask(4, 2000),
+  ...disputedTask(5, 9000),
+  { ...resolverUpdated(30, 5000, ALICE, false), logIndex: 1 },
+];
+
+describe.each([
+  ['MemoryStore', () => new MemoryStore()],
+  ['SqliteStore', () => new SqliteStore(':memory:')],
+])('Indexer disputes on %s', (_name, createStore) => {
+  let indexer: Indexer;
+
+  beforeEach(() => {
+    indexer = new Indexer({ store: createStore() });
+    indexer.ingest(events);
+  });
+
+  it('records who resolved each dispute and filters by state, outcome and resolver', () => {
+    const ids = (disputes: { taskId: number }[]) =>
+      disputes.map((dispute) => dispute.taskId);
+
+    expect(indexer.getDispute(1)?.resolver).toBe(ALICE.toLowerCase());
+    expect(indexer.getDispute(4)?.resolver).toBeNull();
+    expect(ids(indexer.getDisputes())).toEqual([1, 2, 3, 4, 5]);
+    expect(ids(indexer.getDisputes({ state: 'OPEN' }))).toEqual([4, 5]);
+    expect(ids(indexer.getDisputes({ state: 'RESOLVED' }))).toEqual([1, 2, 3]);
+    expect(ids(indexer.getDisputes({ resolver: ALICE }))).toEqual([1, 3]);
+    expect(
+      ids(indexer.getDisputes({ outcome: ['BUYER_WINS', 'SPLIT'] })),
+    ).toEqual([2, 3]);
+    expect(
+      ids(indexer.getDisputes({ state: 'RESOLVED', resolver: BOB })),
+    ).toEqual([2]);
+    expect(ids(indexer.getDisputes({ outcome: [] }))).toEqual([]);
+  });
+
+  it('replays the resolver set over time', () => {
+    expect(indexer.getResolverTerms()).toEqual([
+      { resolver: ALICE.toLowerCase(), addedAt: 10, removedAt: 5000 },
+      { resolver: BOB, addedAt: 20, removedAt: null },
+    ]);
+    expect(indexer.getResolvers()).toEqual([BOB]);
+    expect(indexer.getResolvers(15)).toEqual([ALICE.toLowerCase()]);
+    expect(indexer.getResolvers(4999)).toEqual([ALICE.toLowerCase(), BOB]);
+    expect(indexer.getResolvers(5)).toEqual([]);
+  });
+
+  it('computes outcome distributions and latency per resolver', () => {
+    expect(indexer.getDisputeMetrics()).toEqual({
+      openCount: 2,
+      resolvedCount: 3,
+      outcomes: { SELLER_WINS: 1, BUYER_WINS: 1, SPLIT: 1, CANCEL: 0 },
+      timeoutCount: 0,
+      resolvers: [
+        {
+          resolver: ALICE.toLowerCase(),
+          active: false,
+          resolvedCount: 2,
+          outcomes: { SELLER_WINS: 1, BUYER_WINS: 0, SPLIT: 1, CANCEL: 0 },
+          avgResolutionSec: 400,
+          p50ResolutionSec: 200,
+          p90ResolutionSec: 600,
+        },
+        {
+          resolver: BOB,
+          active: true,
+          resolvedCount: 1,
+          outcomes: { SELLER_WINS: 0, BUYER_WINS: 1, SPLIT: 0, CANCEL: 0 },
+          avgResolutionSec: 2000,
+          p50ResolutionSec: 2000,
+          p90ResolutionSec: 2000,
+        },
+      ],
+    });
+  });
+
+  it('lists disputes pending past a threshold, oldest first', () => {
+    expect(
+      indexer.getStaleDisputes(3600, 10_000).map((dispute) => dispute.taskId),
+    ).toEqual([4]);
+    expect(
+      indexer.getStaleDisputes(500, 10_000).map((dispute) => dispute.taskId),
+    ).toEqual([4, 5]);
+    expect(indexer.getStaleDisputes(3600, 5000)).toEqual([]);
+  });
+});
+
+describe('JsonFileStore dispute migration', () => {
+  let dir = '';
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'moes-disputes-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('backfills resolvers from the event log', async () => {
+    const persistPath = path.join(dir, 'state.json');
+    await fs.writeFile(
+      persistPath,
+      JSON.stringify({
+        schemaVersion: 9,
+        listings: [],
+        tasks: [],
+        disputes: [
+          { taskId: 1, openedAt: 10, resolvedAt: 20, outcome: 'SPLIT' },
+          { taskId: 2, openedAt: 10, resolvedAt: null, outcome: null },
+        ],
+        agents: [],
+        events: disputedTask(1, 10, {
+          resolver: ALICE,
+          outcome: 'SPLIT',
+          resolvedAt: 20,
+        }),
+        pendingEvents: [],
+        blockHashes: [],
+        headBlock: 11,
+        lastProcessedBlock: 11,
+        appliedEventKeys: [],
+      }),
+    );
+
+    const indexer = new Indexer({ persistPath });
+    await indexer.load();
+    expect(indexer.getDisputes({ resolver: ALICE })).toMatchObject([
+      { taskId: 1, outcome: 'SPLIT' },
+    ]);
+    expect(indexer.getDispute(2)?.resolver).toBeNull();
+  });
+});
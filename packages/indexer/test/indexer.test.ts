@@ -1,6 +1,12 @@
 import { describe, expect, it } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { IndexerChange } from '../src/change-feed';
 import type { IndexerEvent, ListingCuration } from '../src/indexer';
 import { Indexer } from '../src/indexer';
+import { SqliteStore } from '../src/sqlite-store';
+import { MemoryStore } from '../src/store';
 
 describe('Indexer', () => {
   it('computes per-agent metrics and query results', () => {
@@ -15,9 +21,9 @@ describe('Indexer', () => {
         listingURI: 'ipfs://listing-1',
         pricing: {
           paymentToken: '0xToken',
-          basePrice: 100,
+          basePrice: '100',
           unitType: 'LOC',
-          unitPrice: 10,
+          unitPrice: '10',
           minUnits: 1,
           maxUnits: 100,
           quoteRequired: false,
@@ -25,6 +31,7 @@ describe('Indexer', () => {
         policy: {
           challengeWindowSec: 3600,
           postDisputeWindowSec: 0,
+          deliveryWindowSec: 86400,
           sellerBondBps: 0,
         },
         active: true,
@@ -39,9 +46,9 @@ describe('Indexer', () => {
         listingURI: 'ipfs://listing-2',
         pricing: {
           paymentToken: '0xToken',
-          basePrice: 200,
+          basePrice: '200',
           unitType: 'LOC',
-          unitPrice: 20,
+          unitPrice: '20',
           minUnits: 1,
           maxUnits: 100,
           quoteRequired: true,
@@ -49,6 +56,7 @@ describe('Indexer', () => {
         policy: {
           challengeWindowSec: 3600,
           postDisputeWindowSec: 0,
+          deliveryWindowSec: 86400,
           sellerBondBps: 0,
         },
         active: true,
@@ -78,7 +86,7 @@ describe('Indexer', () => {
         logIndex: 2,
         timestamp: 130,
         taskId: 1,
-        amount: 200,
+        amount: '200',
       },
       {
         type: 'QuoteAccepted',
@@ -109,8 +117,8 @@ describe('Indexer', () => {
         logIndex: 1,
         timestamp: 220,
         taskId: 1,
-        buyerPayout: 100,
-        sellerBondRefund: 0,
+        buyerPayout: '100',
+        sellerBondRefund: '0',
       },
       {
         type: 'TaskPosted',
@@ -131,7 +139,7 @@ describe('Indexer', () => {
         timestamp: 310,
         taskId: 2,
         quotedUnits: 5,
-        quotedTotalPrice: 50,
+        quotedTotalPrice: '50',
         expiry: 0,
       },
       {
@@ -164,8 +172,8 @@ describe('Indexer', () => {
         logIndex: 0,
         timestamp: 450,
         taskId: 2,
-        buyerPayout: 50,
-        sellerBondRefund: 0,
+        buyerPayout: '50',
+        sellerBondRefund: '0',
       },
       {
         type: 'TaskPosted',
@@ -192,7 +200,7 @@ describe('Indexer', () => {
         logIndex: 2,
         timestamp: 530,
         taskId: 3,
-        amount: 130,
+        amount: '130',
       },
       {
         type: 'QuoteAccepted',
@@ -225,8 +233,8 @@ describe('Indexer', () => {
         logIndex: 0,
         timestamp: 700,
         taskId: 3,
-        buyerPayout: 30,
-        sellerBondRefund: 0,
+        buyerPayout: '30',
+        sellerBondRefund: '0',
       },
       {
         type: 'TaskPosted',
@@ -313,9 +321,9 @@ describe('Indexer', () => {
         listingURI: 'ipfs://listing-99',
         pricing: {
           paymentToken: '0xToken',
-          basePrice: 100,
+          basePrice: '100',
           unitType: 'LOC',
-          unitPrice: 10,
+          unitPrice: '10',
           minUnits: 1,
           maxUnits: 100,
           quoteRequired: false,
@@ -323,6 +331,7 @@ describe('Indexer', () => {
         policy: {
           challengeWindowSec: 3600,
           postDisputeWindowSec: 0,
+          deliveryWindowSec: 86400,
           sellerBondBps: 0,
         },
         active: true,
@@ -357,4 +366,1443 @@ describe('Indexer', () => {
     const listing = indexer.getListings({ listingIds: [99] })[0];
     expect(listing?.curation).toEqual(curation);
   });
+
+  it('holds back unconfirmed events and rolls back on a block hash change', () => {
+    const indexer = new Indexer({ confirmations: 1 });
+    indexer.ingest([
+      {
+        type: 'TaskPosted',
+        blockNumber: 5,
+        logIndex: 0,
+        timestamp: 500,
+        blockHash: '0xa5',
+        taskId: 1,
+        listingId: 1,
+        agentId: 1,
+        buyer: '0xBuyer',
+        taskURI: 'ipfs://task-1',
+        proposedUnits: 1,
+      },
+      {
+        type: 'TaskCancelled',
+        blockNumber: 6,
+        logIndex: 0,
+        timestamp: 600,
+        blockHash: '0xa6',
+        taskId: 1,
+      },
+    ]);
+
+    expect(indexer.getTasksByAgent(1)[0]?.status).toBe('OPEN');
+
+    indexer.ingest([
+      {
+        type: 'QuoteProposed',
+        blockNumber: 6,
+        logIndex: 0,
+        timestamp: 610,
+        blockHash: '0xb6',
+        taskId: 1,
+        quotedUnits: 1,
+        quotedTotalPrice: '10',
+        expiry: 0,
+      },
+    ]);
+    indexer.advanceHead(7, '0xb7');
+
+    const [task] = indexer.getTasksByAgent(1);
+    expect(task?.status).toBe('QUOTED');
+    expect(task?.cancelledAt).toBeNull();
+    expect(() => indexer.rollback(6)).toThrow(/finalized/);
+  });
+
+  it('keeps a batch pending when applying it throws', () => {
+    for (const store of [new MemoryStore(), new SqliteStore(':memory:')]) {
+      const indexer = new Indexer({ store });
+      const pricing = {
+        paymentToken: '0xToken',
+        basePrice: '100',
+        unitType: 'LOC',
+        unitPrice: '10',
+        minUnits: 1,
+        maxUnits: 100,
+        quoteRequired: false,
+      };
+      indexer.ingest([
+        {
+          type: 'ListingCreated',
+          blockNumber: 1,
+          logIndex: 0,
+          timestamp: 10,
+          listingId: 1,
+          agentId: 1,
+          listingURI: 'ipfs://listing-1',
+          pricing,
+          policy: {
+            challengeWindowSec: 3600,
+            postDisputeWindowSec: 0,
+            deliveryWindowSec: 86400,
+            sellerBondBps: 0,
+          },
+          active: true,
+        },
+      ]);
+      // TaskAccepted prices the task from the listing and cannot parse this.
+      indexer.repairListing(1, {
+        pricing: { ...pricing, basePrice: 'not a number' },
+      });
+
+      const batch: IndexerEvent[] = [
+        {
+          type: 'TaskPosted',
+          blockNumber: 2,
+          logIndex: 0,
+          timestamp: 20,
+          taskId: 1,
+          listingId: 1,
+          agentId: 1,
+          buyer: '0xBuyer',
+          taskURI: 'ipfs://task-1',
+          proposedUnits: 2,
+        },
+        {
+          type: 'TaskAccepted',
+          blockNumber: 2,
+          logIndex: 1,
+          timestamp: 21,
+          taskId: 1,
+        },
+      ];
+      expect(() => indexer.ingest(batch)).toThrow(SyntaxError);
+      expect(indexer.getTask(1)).toBeNull();
+      expect(indexer.getTaskHistory(1)).toEqual([]);
+      expect(indexer.getCursor()).toBe(1);
+      expect(indexer.exportState().pendingEvents).toEqual(batch);
+
+      indexer.repairListing(1, { pricing });
+      expect(indexer.ingest([])).toEqual([]);
+      expect(indexer.getTask(1)).toMatchObject({
+        status: 'QUOTED',
+        quotedTotalPrice: '120',
+      });
+      expect(indexer.getCursor()).toBe(2);
+      expect(indexer.exportState().pendingEvents).toEqual([]);
+    }
+  });
+
+  it('skips replayed events and restores the cursor on load', async () => {
+    const posted: IndexerEvent = {
+      type: 'TaskPosted',
+      blockNumber: 3,
+      logIndex: 0,
+      timestamp: 300,
+      taskId: 7,
+      listingId: 1,
+      agentId: 1,
+      buyer: '0xBuyer',
+      taskURI: 'ipfs://task-7',
+      proposedUnits: 2,
+    };
+    const accepted: IndexerEvent = {
+      type: 'TaskAccepted',
+      blockNumber: 4,
+      logIndex: 0,
+      timestamp: 400,
+      taskId: 7,
+    };
+
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'moes-indexer-'));
+    const persistPath = path.join(dir, 'state.json');
+    try {
+      const indexer = new Indexer({ persistPath });
+      indexer.ingest([posted, accepted]);
+      indexer.ingest([posted, accepted]);
+      expect(indexer.getTasksByAgent(1)[0]?.status).toBe('QUOTED');
+      expect(indexer.getCursor()).toBe(4);
+      await indexer.persist();
+
+      const restarted = new Indexer({ persistPath });
+      await restarted.load();
+      expect(restarted.getCursor()).toBe(4);
+      restarted.ingest([posted]);
+      expect(restarted.getTasksByAgent(1)[0]?.status).toBe('QUOTED');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('records late quote and funding data without moving a task backwards', () => {
+    const indexer = new Indexer();
+    indexer.ingest([
+      {
+        type: 'TaskPosted',
+        blockNumber: 1,
+        logIndex: 0,
+        timestamp: 100,
+        taskId: 1,
+        listingId: 1,
+        agentId: 1,
+        buyer: '0xBuyer',
+        taskURI: 'ipfs://task-1',
+        proposedUnits: 1,
+      },
+      {
+        type: 'QuoteProposed',
+        blockNumber: 2,
+        logIndex: 0,
+        timestamp: 200,
+        taskId: 1,
+        quotedUnits: 1,
+        quotedTotalPrice: '10',
+        expiry: 0,
+      },
+      {
+        type: 'QuoteAccepted',
+        blockNumber: 3,
+        logIndex: 0,
+        timestamp: 300,
+        taskId: 1,
+      },
+      {
+        type: 'DeliverableSubmitted',
+        blockNumber: 4,
+        logIndex: 0,
+        timestamp: 400,
+        taskId: 1,
+        artifactURI: 'ipfs://artifact-1',
+        artifactHash: '0xhash1',
+      },
+    ]);
+
+    const diagnostics = indexer.ingest([
+      {
+        type: 'QuoteProposed',
+        blockNumber: 2,
+        logIndex: 1,
+        timestamp: 210,
+        taskId: 1,
+        quotedUnits: 2,
+        quotedTotalPrice: '20',
+        expiry: 0,
+      },
+      {
+        type: 'TaskFunded',
+        blockNumber: 2,
+        logIndex: 2,
+        timestamp: 220,
+        taskId: 1,
+        amount: '20',
+      },
+    ]);
+
+    const [task] = indexer.getTasksByAgent(1);
+    expect(task).toMatchObject({
+      status: 'SUBMITTED',
+      quotedUnits: 2,
+      quotedTotalPrice: '20',
+      fundedAmount: '20',
+      submittedAt: 400,
+    });
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        code: 'INVALID_TRANSITION',
+        eventType: 'QuoteProposed',
+        taskId: 1,
+        status: 'SUBMITTED',
+      }),
+    ]);
+    expect(indexer.getDiagnostics()).toEqual(diagnostics);
+  });
+
+  it('keeps the accepted quote when an earlier one arrives late', () => {
+    const indexer = new Indexer();
+    const quote = (
+      blockNumber: number,
+      quotedUnits: number,
+      quotedTotalPrice: string,
+    ): IndexerEvent => ({
+      type: 'QuoteProposed',
+      blockNumber,
+      logIndex: 0,
+      timestamp: blockNumber * 100,
+      taskId: 1,
+      quotedUnits,
+      quotedTotalPrice,
+      expiry: 0,
+    });
+    indexer.ingest([
+      {
+        type: 'TaskPosted',
+        blockNumber: 1,
+        logIndex: 0,
+        timestamp: 100,
+        taskId: 1,
+        listingId: 1,
+        agentId: 1,
+        buyer: '0xBuyer',
+        taskURI: 'ipfs://task-1',
+        proposedUnits: 1,
+      },
+      quote(3, 2, '20'),
+      {
+        type: 'QuoteAccepted',
+        blockNumber: 4,
+        logIndex: 0,
+        timestamp: 400,
+        taskId: 1,
+      },
+    ]);
+
+    indexer.ingest([quote(2, 1, '10')]);
+    expect(indexer.getTask(1)).toMatchObject({
+      status: 'ACTIVE',
+      quotedUnits: 2,
+      quotedTotalPrice: '20',
+      quotedAt: 300,
+    });
+  });
+
+  it('refuses a dispute on a task that was never submitted', () => {
+    const indexer = new Indexer();
+    const diagnostics = indexer.ingest([
+      {
+        type: 'TaskPosted',
+        blockNumber: 1,
+        logIndex: 0,
+        timestamp: 100,
+        taskId: 1,
+        listingId: 1,
+        agentId: 1,
+        buyer: '0xBuyer',
+        taskURI: 'ipfs://task-1',
+        proposedUnits: 1,
+      },
+      {
+        type: 'DisputeOpened',
+        blockNumber: 2,
+        logIndex: 0,
+        timestamp: 200,
+        taskId: 1,
+        buyer: '0xBuyer',
+        disputeURI: 'ipfs://dispute-1',
+      },
+    ]);
+
+    expect(indexer.getTask(1)).toMatchObject({
+      status: 'OPEN',
+      disputedAt: null,
+    });
+    expect(indexer.getDispute(1)).toBeNull();
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        code: 'INVALID_TRANSITION',
+        eventType: 'DisputeOpened',
+        taskId: 1,
+        blockNumber: 2,
+        status: 'OPEN',
+      }),
+    ]);
+  });
+
+  it('holds an event that arrives before the one it follows', () => {
+    const indexer = new Indexer();
+    const posted: IndexerEvent = {
+      type: 'TaskPosted',
+      blockNumber: 1,
+      logIndex: 0,
+      timestamp: 100,
+      taskId: 1,
+      listingId: 1,
+      agentId: 1,
+      buyer: '0xBuyer',
+      taskURI: 'ipfs://task-1',
+      proposedUnits: 1,
+    };
+    const quoted: IndexerEvent = {
+      type: 'QuoteProposed',
+      blockNumber: 2,
+      logIndex: 0,
+      timestamp: 200,
+      taskId: 1,
+      quotedUnits: 1,
+      quotedTotalPrice: '10',
+      expiry: 0,
+    };
+    const accepted: IndexerEvent = {
+      type: 'QuoteAccepted',
+      blockNumber: 3,
+      logIndex: 0,
+      timestamp: 300,
+      taskId: 1,
+    };
+    const submitted: IndexerEvent = {
+      type: 'DeliverableSubmitted',
+      blockNumber: 4,
+      logIndex: 0,
+      timestamp: 400,
+      taskId: 1,
+      artifactURI: 'ipfs://artifact-1',
+      artifactHash: '0xhash1',
+    };
+
+    indexer.ingest([posted, quoted]);
+    expect(indexer.ingest([submitted])).toEqual([
+      expect.objectContaining({
+        eventType: 'DeliverableSubmitted',
+        status: 'QUOTED',
+      }),
+    ]);
+    expect(indexer.getTask(1)).toMatchObject({
+      status: 'QUOTED',
+      submittedAt: null,
+    });
+    expect(indexer.exportState().pendingEvents).toEqual([submitted]);
+
+    expect(indexer.ingest([accepted])).toEqual([]);
+    indexer.ingest([posted, quoted, accepted, submitted]);
+    expect(indexer.getTask(1)).toMatchObject({
+      status: 'SUBMITTED',
+      acceptedAt: 300,
+      submittedAt: 400,
+      artifactURI: 'ipfs://artifact-1',
+    });
+    expect(indexer.getTaskHistory(1).map((event) => event.type)).toEqual([
+      'TaskPosted',
+      'QuoteProposed',
+      'QuoteAccepted',
+      'DeliverableSubmitted',
+    ]);
+    expect(indexer.exportState().pendingEvents).toEqual([]);
+    expect(indexer.getDiagnostics()).toHaveLength(1);
+  });
+
+  it('keeps an event log for history and point-in-time queries', () => {
+    const indexer = new Indexer();
+    indexer.ingest([
+      {
+        type: 'ListingCreated',
+        blockNumber: 1,
+        logIndex: 0,
+        timestamp: 10,
+        listingId: 7,
+        agentId: 3,
+        listingURI: 'ipfs://listing-7-v1',
+        pricing: {
+          paymentToken: '0xToken',
+          basePrice: '100',
+          unitType: 'LOC',
+          unitPrice: '10',
+          minUnits: 1,
+          maxUnits: 100,
+          quoteRequired: false,
+        },
+        policy: {
+          challengeWindowSec: 3600,
+          postDisputeWindowSec: 0,
+          deliveryWindowSec: 86400,
+          sellerBondBps: 0,
+        },
+        active: true,
+      },
+      {
+        type: 'TaskPosted',
+        blockNumber: 2,
+        logIndex: 0,
+        timestamp: 20,
+        taskId: 42,
+        listingId: 7,
+        agentId: 3,
+        buyer: '0xBuyer',
+        taskURI: 'ipfs://task-42',
+        proposedUnits: 2,
+      },
+      {
+        type: 'TaskAccepted',
+        blockNumber: 3,
+        logIndex: 0,
+        timestamp: 30,
+        taskId: 42,
+      },
+      {
+        type: 'ListingUpdated',
+        blockNumber: 4,
+        logIndex: 0,
+        timestamp: 40,
+        listingId: 7,
+        agentId: 3,
+        listingURI: 'ipfs://listing-7-v2',
+        active: true,
+      },
+      {
+        type: 'TaskCancelled',
+        blockNumber: 5,
+        logIndex: 0,
+        timestamp: 50,
+        taskId: 42,
+      },
+    ]);
+
+    expect(indexer.getTaskHistory(42).map((event) => event.type)).toEqual([
+      'TaskPosted',
+      'TaskAccepted',
+      'TaskCancelled',
+    ]);
+    expect(indexer.getListingHistory(7).map((event) => event.type)).toEqual([
+      'ListingCreated',
+      'ListingUpdated',
+    ]);
+
+    const atBlock3 = indexer.materializeAt({ blockNumber: 3 });
+    expect(atBlock3.getListings({ listingIds: [7] })[0]?.listingURI).toBe(
+      'ipfs://listing-7-v1',
+    );
+    expect(atBlock3.getTasksByAgent(3)[0]?.status).toBe('QUOTED');
+
+    const atTime45 = indexer.materializeAt({ timestamp: 45 });
+    expect(atTime45.getListings({ listingIds: [7] })[0]?.listingURI).toBe(
+      'ipfs://listing-7-v2',
+    );
+    expect(indexer.getTasksByAgent(3)[0]?.status).toBe('CANCELLED');
+  });
+
+  it('records why a task was cancelled and post-dispute timeouts', () => {
+    const indexer = new Indexer();
+    const posted = (taskId: number): IndexerEvent => ({
+      type: 'TaskPosted',
+      blockNumber: 1,
+      logIndex: taskId,
+      timestamp: 10,
+      taskId,
+      listingId: 1,
+      agentId: 5,
+      buyer: '0xBuyer',
+      taskURI: `ipfs://task-${taskId}`,
+      proposedUnits: 1,
+    });
+    indexer.ingest([
+      posted(1),
+      posted(2),
+      posted(3),
+      posted(4),
+      {
+        type: 'TaskCancelled',
+        blockNumber: 2,
+        logIndex: 0,
+        timestamp: 20,
+        taskId: 1,
+      },
+      {
+        type: 'TaskAccepted',
+        blockNumber: 2,
+        logIndex: 1,
+        timestamp: 20,
+        taskId: 2,
+      },
+      {
+        type: 'TaskAccepted',
+        blockNumber: 2,
+        logIndex: 2,
+        timestamp: 20,
+        taskId: 3,
+      },
+      {
+        type: 'TaskAccepted',
+        blockNumber: 2,
+        logIndex: 3,
+        timestamp: 20,
+        taskId: 4,
+      },
+      {
+        type: 'TaskCancelled',
+        blockNumber: 3,
+        logIndex: 0,
+        timestamp: 30,
+        taskId: 2,
+      },
+      {
+        type: 'SellerCancelledQuote',
+        blockNumber: 3,
+        logIndex: 1,
+        timestamp: 30,
+        taskId: 2,
+        bondRefund: '5',
+      },
+      {
+        type: 'QuoteAccepted',
+        blockNumber: 3,
+        logIndex: 2,
+        timestamp: 30,
+        taskId: 3,
+      },
+      {
+        type: 'QuoteAccepted',
+        blockNumber: 3,
+        logIndex: 3,
+        timestamp: 30,
+        taskId: 4,
+      },
+      {
+        type: 'TaskCancelled',
+        blockNumber: 4,
+        logIndex: 0,
+        timestamp: 40,
+        taskId: 3,
+      },
+      {
+        type: 'TaskCancelledForNonDelivery',
+        blockNumber: 4,
+        logIndex: 1,
+        timestamp: 40,
+        taskId: 3,
+        escrowRefund: '110',
+        sellerBondPenalty: '11',
+      },
+      {
+        type: 'DeliverableSubmitted',
+        blockNumber: 4,
+        logIndex: 2,
+        timestamp: 40,
+        taskId: 4,
+        artifactURI: 'ipfs://artifact-4',
+        artifactHash: '0xhash4',
+      },
+      {
+        type: 'SubmissionDisputed',
+        blockNumber: 5,
+        logIndex: 0,
+        timestamp: 50,
+        taskId: 4,
+        disputeURI: 'ipfs://dispute-4',
+      },
+      {
+        type: 'TaskSettled',
+        blockNumber: 6,
+        logIndex: 0,
+        timestamp: 60,
+        taskId: 4,
+        buyerPayout: '0',
+        sellerBondRefund: '0',
+      },
+      {
+        type: 'PostDisputeTimeoutSettled',
+        blockNumber: 6,
+        logIndex: 1,
+        timestamp: 60,
+        taskId: 4,
+        deadline: 55,
+        outcome: 'SELLER_WINS',
+      },
+    ]);
+
+    const tasks = indexer.getTasksByAgent(5);
+    expect(tasks.map((task) => [task.status, task.cancelReason])).toEqual([
+      ['CANCELLED', 'BUYER_CANCELLED'],
+      ['CANCELLED', 'SELLER_CANCELLED_QUOTE'],
+      ['CANCELLED', 'NON_DELIVERY'],
+      ['SETTLED', null],
+    ]);
+    expect(tasks[1]?.cancelBondRefund).toBe('5');
+    expect(tasks[2]).toMatchObject({
+      cancelledAt: 40,
+      cancelEscrowRefund: '110',
+      cancelBondPenalty: '11',
+    });
+    expect(tasks[3]).toMatchObject({
+      postDisputeTimeoutAt: 60,
+      postDisputeDeadline: 55,
+    });
+
+    const metrics = indexer.getAgentMetrics(5);
+    expect(metrics.cancelCount).toBe(3);
+    expect(metrics.buyerCancelCount).toBe(1);
+    expect(metrics.sellerCancelCount).toBe(1);
+    expect(metrics.nonDeliveryCount).toBe(1);
+    expect(metrics.postDisputeTimeoutCount).toBe(1);
+    expect(metrics.sellerWinCount).toBe(1);
+    expect(metrics.disputeLossRate).toBe(0);
+    expect(metrics.nonDeliveryRate).toBeCloseTo(1 / 2, 6);
+    expect(indexer.getDiagnostics()).toEqual([]);
+  });
+
+  it('tracks agent ownership and the seller snapshotted on each task', () => {
+    const indexer = new Indexer();
+    const ZERO = '0x0000000000000000000000000000000000000000';
+    indexer.ingest([
+      {
+        type: 'Transfer',
+        blockNumber: 1,
+        logIndex: 0,
+        timestamp: 10,
+        agentId: 8,
+        from: ZERO,
+        to: '0xAlice',
+      },
+      {
+        type: 'AgentURIUpdated',
+        blockNumber: 1,
+        logIndex: 1,
+        timestamp: 10,
+        agentId: 8,
+        agentURI: 'ipfs://agent-8',
+      },
+      {
+        type: 'AgentRegistered',
+        blockNumber: 1,
+        logIndex: 2,
+        timestamp: 10,
+        agentId: 8,
+        owner: '0xAlice',
+        agentURI: 'ipfs://agent-8',
+      },
+      {
+        type: 'TaskPosted',
+        blockNumber: 2,
+        logIndex: 0,
+        timestamp: 20,
+        taskId: 1,
+        listingId: 1,
+        agentId: 8,
+        buyer: '0xBuyer',
+        taskURI: 'ipfs://task-1',
+        proposedUnits: 1,
+      },
+      {
+        type: 'TaskAccepted',
+        blockNumber: 2,
+        logIndex: 1,
+        timestamp: 20,
+        taskId: 1,
+      },
+      {
+        type: 'QuoteAccepted',
+        blockNumber: 3,
+        logIndex: 0,
+        timestamp: 30,
+        taskId: 1,
+      },
+      {
+        type: 'Transfer',
+        blockNumber: 4,
+        logIndex: 0,
+        timestamp: 40,
+        agentId: 8,
+        from: '0xAlice',
+        to: '0xBob',
+      },
+      {
+        type: 'AgentURIUpdated',
+        blockNumber: 5,
+        logIndex: 0,
+        timestamp: 50,
+        agentId: 8,
+        agentURI: 'ipfs://agent-8-v2',
+      },
+    ]);
+
+    expect(indexer.getAgent(8)).toEqual({
+      agentId: 8,
+      owner: '0xbob',
+      agentURI: 'ipfs://agent-8-v2',
+      registeredAt: 10,
+      updatedAt: 50,
+    });
+    expect(indexer.getAgentsByOwner('0xAlice')).toEqual([]);
+    expect(indexer.getAgentsByOwner('0xBOB').map((a) => a.agentId)).toEqual([
+      8,
+    ]);
+    expect(
+      indexer.getAgentTransfers(8).map((event) => [event.from, event.to]),
+    ).toEqual([
+      [ZERO, '0xAlice'],
+      ['0xAlice', '0xBob'],
+    ]);
+    expect(indexer.getTasksByAgent(8)[0]?.seller).toBe('0xalice');
+    expect(indexer.getAgent(9)).toBeNull();
+  });
+
+  it('stores TaskSettledV2 payouts and counts auto-releases by path', () => {
+    const indexer = new Indexer();
+    const settledTask = (
+      taskId: number,
+      path: 'ACCEPTED' | 'TIMEOUT',
+    ): IndexerEvent[] => [
+      {
+        type: 'TaskPosted',
+        blockNumber: taskId,
+        logIndex: 0,
+        timestamp: 10,
+        taskId,
+        listingId: 1,
+        agentId: 6,
+        buyer: '0xbuyer',
+        taskURI: `ipfs://task-${taskId}`,
+        proposedUnits: 1,
+      },
+      {
+        type: 'TaskAccepted',
+        blockNumber: taskId,
+        logIndex: 1,
+        timestamp: 10,
+        taskId,
+      },
+      {
+        type: 'QuoteAccepted',
+        blockNumber: taskId,
+        logIndex: 2,
+        timestamp: 20,
+        taskId,
+      },
+      {
+        type: 'DeliverableSubmitted',
+        blockNumber: taskId,
+        logIndex: 3,
+        timestamp: 30,
+        taskId,
+        artifactURI: `ipfs://artifact-${taskId}`,
+        artifactHash: '0xhash',
+      },
+      {
+        type: 'TaskSettledV2',
+        blockNumber: taskId,
+        logIndex: 4,
+        timestamp: 40,
+        taskId,
+        buyer: '0xbuyer',
+        seller: '0xSeller',
+        bondFunder: '0xFunder',
+        buyerEscrowPayout: '0',
+        buyerBondPayout: '0',
+        sellerEscrowPayout: '110',
+        sellerBondRefund: '11',
+        path,
+      },
+    ];
+    indexer.ingest([
+      ...settledTask(1, 'TIMEOUT'),
+      ...settledTask(2, 'ACCEPTED'),
+    ]);
+
+    const [timedOut, accepted] = indexer.getTasksByAgent(6);
+    expect(timedOut).toMatchObject({
+      status: 'SETTLED',
+      settlementPath: 'TIMEOUT',
+      seller: '0xseller',
+      bondFunder: '0xfunder',
+      buyerEscrowPayout: '0',
+      buyerBondPayout: '0',
+      sellerEscrowPayout: '110',
+      sellerBondRefund: '11',
+    });
+    expect(accepted?.settlementPath).toBe('ACCEPTED');
+
+    // Neither task has a SubmissionAccepted event, so the timestamp heuristic
+    // alone would count both as silent auto-releases.
+    const metrics = indexer.getAgentMetrics(6);
+    expect(metrics.autoReleaseCount).toBe(1);
+    expect(metrics.silentAutoReleaseFrequency).toBeCloseTo(1 / 2, 6);
+  });
+
+  it('windows and time-decays agent metrics', () => {
+    const DAY = 86_400;
+    const now = 200 * DAY;
+    // Task n is posted n * 20 days ago; only the two oldest were disputed.
+    const events: IndexerEvent[] = [0, 1, 2, 3, 4].flatMap((n) => {
+      const postedAt = now - n * 20 * DAY;
+      const base = { blockNumber: 10 - n, taskId: n + 1 };
+      const lifecycle: IndexerEvent[] = [
+        {
+          type: 'TaskPosted',
+          ...base,
+          logIndex: 0,
+          timestamp: postedAt,
+          listingId: 1,
+          agentId: 4,
+          buyer: '0xbuyer',
+          taskURI: `ipfs://task-${n + 1}`,
+          proposedUnits: 1,
+        },
+        { type: 'TaskAccepted', ...base, logIndex: 1, timestamp: postedAt },
+        { type: 'QuoteAccepted', ...base, logIndex: 2, timestamp: postedAt },
+        {
+          type: 'DeliverableSubmitted',
+          ...base,
+          logIndex: 3,
+          timestamp: postedAt + 100 * (n + 1),
+          artifactURI: 'ipfs://artifact',
+          artifactHash: '0xhash',
+        },
+      ];
+      if (n >= 3) {
+        lifecycle.push({
+          type: 'SubmissionDisputed',
+          ...base,
+          logIndex: 4,
+          timestamp: postedAt + 1000,
+          disputeURI: 'ipfs://dispute',
+        });
+      }
+      return lifecycle;
+    });
+    const indexer = new Indexer();
+    indexer.ingest(events);
+
+    const allTime = indexer.getAgentMetrics(4);
+    expect(allTime.postedCount).toBe(5);
+    expect(allTime.disputeRate).toBeCloseTo(2 / 5, 6);
+
+    const week = indexer.getAgentMetrics(4, { window: '7d', now });
+    expect(week.postedCount).toBe(1);
+    expect(week.disputeRate).toBe(0);
+    expect(week.avgTimeToSubmitSec).toBe(100);
+
+    const month = indexer.getAgentMetrics(4, { window: '30d', now });
+    expect(month.postedCount).toBe(2);
+    expect(month.avgTimeToSubmitSec).toBe(150);
+
+    const quarter = indexer.getAgentMetrics(4, { window: '90d', now });
+    expect(quarter.postedCount).toBe(5);
+    expect(quarter.disputeRate).toBeCloseTo(2 / 5, 6);
+
+    // With a 20-day half-life, task n counts 0.5^n.
+    const decayed = indexer.getAgentMetrics(4, {
+      halfLifeSec: 20 * DAY,
+      now,
+    });
+    const weights = [1, 0.5, 0.25, 0.125, 0.0625];
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    expect(decayed.postedCount).toBeCloseTo(total, 6);
+    expect(decayed.disputeRate).toBeCloseTo((0.125 + 0.0625) / total, 6);
+    expect(decayed.acceptRate).toBeCloseTo(1, 6);
+
+    expect(() => indexer.getAgentMetrics(4, { halfLifeSec: 0 })).toThrow(
+      /halfLifeSec/,
+    );
+  });
+
+  it('aggregates metrics per listing and per buyer', () => {
+    const posted = (
+      taskId: number,
+      listingId: number,
+      buyer: string,
+    ): IndexerEvent => ({
+      type: 'TaskPosted',
+      blockNumber: taskId,
+      logIndex: 0,
+      timestamp: taskId * 10,
+      taskId,
+      listingId,
+      agentId: 7,
+      buyer,
+      taskURI: `ipfs://task-${taskId}`,
+      proposedUnits: 1,
+    });
+    const at = (taskId: number, logIndex: number) => ({
+      blockNumber: taskId,
+      logIndex,
+      timestamp: taskId * 10 + logIndex,
+      taskId,
+    });
+    const funded = (taskId: number, amount: string): IndexerEvent[] => [
+      { type: 'TaskAccepted', ...at(taskId, 1) },
+      { type: 'TaskFunded', ...at(taskId, 2), amount },
+      { type: 'QuoteAccepted', ...at(taskId, 3) },
+      {
+        type: 'DeliverableSubmitted',
+        ...at(taskId, 4),
+        artifactURI: 'ipfs://artifact',
+        artifactHash: '0xhash',
+      },
+    ];
+    const disputed = (taskId: number): IndexerEvent => ({
+      type: 'SubmissionDisputed',
+      ...at(taskId, 5),
+      disputeURI: 'ipfs://dispute',
+    });
+
+    const indexer = new Indexer();
+    indexer.ingest([
+      posted(1, 1, '0xPicky'),
+      ...funded(1, '9007199254740993'),
+      disputed(1),
+      posted(2, 1, '0xpicky'),
+      ...funded(2, '7'),
+      disputed(2),
+      posted(3, 2, '0xPicky'),
+      { type: 'TaskCancelled', ...at(3, 1) },
+      posted(4, 2, '0xCalm'),
+      ...funded(4, '5'),
+      // Funded, then cancelled: the escrow went back to the buyer.
+      posted(5, 3, '0xCalm'),
+      { type: 'TaskAccepted', ...at(5, 1) },
+      { type: 'TaskFunded', ...at(5, 2), amount: '100' },
+      { type: 'TaskCancelled', ...at(5, 3) },
+    ]);
+
+    const good = indexer.getListingMetrics(2);
+    expect(good).toMatchObject({
+      listingId: 2,
+      postedCount: 2,
+      submittedCount: 1,
+      disputeRate: 0,
+      cancelRate: 0.5,
+    });
+    expect(indexer.getListingMetrics(1)).toMatchObject({
+      postedCount: 2,
+      disputeRate: 1,
+    });
+    expect(indexer.getAgentMetrics(7).disputeRate).toBeCloseTo(2 / 3, 6);
+
+    expect(indexer.getBuyerMetrics('0xPICKY')).toEqual({
+      buyer: '0xpicky',
+      postedCount: 3,
+      fundedCount: 2,
+      submittedCount: 2,
+      disputeCount: 2,
+      cancelCount: 1,
+      disputeRate: 1,
+      cancelRate: 1 / 3,
+      fundedVolume: '9007199254741000',
+    });
+    expect(indexer.getBuyerMetrics('0xcalm')).toMatchObject({
+      postedCount: 2,
+      fundedCount: 1,
+      disputeRate: 0,
+      fundedVolume: '5',
+    });
+    expect(indexer.getBuyerMetrics('0xnobody').fundedVolume).toBe('0');
+  });
+
+  it('reports timing percentiles and dispute outcomes', () => {
+    const submitDelays = [100, 200, 300, 400, 10_000];
+    const events = submitDelays.flatMap((delay, n): IndexerEvent[] => {
+      const taskId = n + 1;
+      const base = { blockNumber: taskId, taskId };
+      return [
+        {
+          type: 'TaskPosted',
+          ...base,
+          logIndex: 0,
+          timestamp: 0,
+          listingId: 1,
+          agentId: 8,
+          buyer: '0xbuyer',
+          taskURI: `ipfs://task-${taskId}`,
+          proposedUnits: 1,
+        },
+        { type: 'TaskAccepted', ...base, logIndex: 1, timestamp: 10 * taskId },
+        {
+          type: 'TaskFunded',
+          ...base,
+          logIndex: 2,
+          timestamp: 100,
+          amount: '1000',
+        },
+        { type: 'QuoteAccepted', ...base, logIndex: 3, timestamp: 100 },
+        {
+          type: 'DeliverableSubmitted',
+          ...base,
+          logIndex: 4,
+          timestamp: 100 + delay,
+          artifactURI: 'ipfs://artifact',
+          artifactHash: '0xhash',
+        },
+      ];
+    });
+    const dispute = (
+      taskId: number,
+      outcome: 'SELLER_WINS' | 'BUYER_WINS',
+    ): IndexerEvent[] => [
+      {
+        type: 'DisputeOpened',
+        blockNumber: 20 + taskId,
+        logIndex: 0,
+        timestamp: 20_000,
+        taskId,
+        buyer: '0xbuyer',
+        disputeURI: 'ipfs://dispute',
+      },
+      {
+        type: 'DisputeResolved',
+        blockNumber: 20 + taskId,
+        logIndex: 1,
+        timestamp: 20_500,
+        taskId,
+        resolver: '0xresolver',
+        outcome,
+        resolutionURI: 'ipfs://resolution',
+      },
+      {
+        type: 'TaskSettled',
+        blockNumber: 20 + taskId,
+        logIndex: 2,
+        timestamp: 20_500,
+        taskId,
+        buyerPayout: outcome === 'BUYER_WINS' ? '1000' : '0',
+        sellerBondRefund: '0',
+      },
+    ];
+    const indexer = new Indexer();
+    indexer.ingest([
+      ...events,
+      ...dispute(1, 'SELLER_WINS'),
+      ...dispute(2, 'BUYER_WINS'),
+    ]);
+
+    const metrics = indexer.getAgentMetrics(8);
+    expect(metrics.avgTimeToSubmitSec).toBe(2200);
+    expect(metrics.p50TimeToSubmitSec).toBe(300);
+    expect(metrics.p90TimeToSubmitSec).toBe(10_000);
+    expect(metrics.p50TimeToQuoteSec).toBe(30);
+    expect(metrics.p90TimeToQuoteSec).toBe(50);
+    expect(metrics.p50TimeToSettleSec).toBe(20_200);
+    expect(metrics).toMatchObject({
+      disputeCount: 2,
+      sellerWinCount: 1,
+      buyerWinCount: 1,
+      splitCount: 0,
+      disputeCancelCount: 0,
+      disputeRate: 2 / 5,
+      disputeLossRate: 1 / 5,
+      settledVolume: '2000',
+    });
+  });
+
+  it('filters, sorts and pages through tasks', () => {
+    const posted = (
+      taskId: number,
+      buyer: string,
+      timestamp: number,
+    ): IndexerEvent => ({
+      type: 'TaskPosted',
+      blockNumber: taskId,
+      logIndex: 0,
+      timestamp,
+      taskId,
+      listingId: taskId % 2 === 0 ? 2 : 1,
+      agentId: 9,
+      buyer,
+      taskURI: `ipfs://task-${taskId}`,
+      proposedUnits: 1,
+    });
+    const quote = (taskId: number, expiry: number): IndexerEvent => ({
+      type: 'QuoteProposed',
+      blockNumber: taskId,
+      logIndex: 1,
+      timestamp: 500,
+      taskId,
+      quotedUnits: 1,
+      quotedTotalPrice: '10',
+      expiry,
+    });
+    const indexer = new Indexer();
+    indexer.ingest([
+      posted(1, '0xAlice', 300),
+      posted(2, '0xbob', 100),
+      posted(3, '0xalice', 200),
+      posted(4, '0xALICE', 200),
+      posted(5, '0xbob', 400),
+      quote(2, 1_000),
+      quote(3, 2_000),
+      quote(4, 900),
+    ]);
+
+    const ids = (page: { tasks: { taskId: number }[] }) =>
+      page.tasks.map((task) => task.taskId);
+
+    expect(ids(indexer.getTasks())).toEqual([1, 2, 3, 4, 5]);
+    expect(ids(indexer.getTasks({ status: 'QUOTED' }))).toEqual([2, 3, 4]);
+    expect(
+      ids(indexer.getTasks({ status: ['OPEN'], buyer: '0xaLiCe' })),
+    ).toEqual([1]);
+    expect(ids(indexer.getTasks({ listingId: 2 }))).toEqual([2, 4]);
+    expect(ids(indexer.getTasks({ postedFrom: 200, postedTo: 300 }))).toEqual([
+      1, 3, 4,
+    ]);
+    expect(ids(indexer.getTasks({ quoteExpiresBefore: 1_000 }))).toEqual([4]);
+    expect(ids(indexer.getTasks({ settledFrom: 0 }))).toEqual([]);
+
+    const pages: number[][] = [];
+    let cursor: string | undefined;
+    do {
+      const page = indexer.getTasks({
+        sortBy: 'postedAt',
+        order: 'desc',
+        limit: 2,
+        cursor,
+      });
+      pages.push(ids(page));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor !== undefined);
+    expect(pages).toEqual([[5, 1], [4, 3], [2]]);
+
+    const byExpiry = indexer.getTasks({ sortBy: 'quoteExpiry', limit: 3 });
+    expect(ids(byExpiry)).toEqual([4, 2, 3]);
+    expect(
+      ids(
+        indexer.getTasks({
+          sortBy: 'quoteExpiry',
+          cursor: byExpiry.nextCursor!,
+        }),
+      ),
+    ).toEqual([1, 5]);
+
+    expect(() =>
+      indexer.getTasks({ sortBy: 'postedAt', cursor: byExpiry.nextCursor! }),
+    ).toThrow(/Invalid task cursor/);
+    expect(() => indexer.getTasks({ limit: 0 })).toThrow(/limit/);
+  });
+
+  it('derives deadlines and lists the timeout calls available now', () => {
+    const at = (taskId: number, logIndex: number, timestamp: number) => ({
+      blockNumber: taskId + 1,
+      logIndex,
+      timestamp,
+      taskId,
+    });
+    const activate = (taskId: number, timestamp: number): IndexerEvent[] => [
+      {
+        type: 'TaskPosted',
+        ...at(taskId, 0, timestamp),
+        listingId: 1,
+        agentId: 3,
+        buyer: '0xbuyer',
+        taskURI: `ipfs://task-${taskId}`,
+        proposedUnits: 1,
+      },
+      { type: 'TaskAccepted', ...at(taskId, 1, timestamp) },
+      { type: 'TaskFunded', ...at(taskId, 2, timestamp), amount: '50' },
+      { type: 'QuoteAccepted', ...at(taskId, 3, timestamp) },
+    ];
+    const submit = (taskId: number, timestamp: number): IndexerEvent => ({
+      type: 'DeliverableSubmitted',
+      ...at(taskId, 4, timestamp),
+      artifactURI: 'ipfs://artifact',
+      artifactHash: '0xhash',
+    });
+
+    const indexer = new Indexer();
+    indexer.ingest([
+      {
+        type: 'ListingCreated',
+        blockNumber: 1,
+        logIndex: 0,
+        timestamp: 0,
+        listingId: 1,
+        agentId: 3,
+        listingURI: 'ipfs://listing-1',
+        pricing: {
+          paymentToken: '0xToken',
+          basePrice: '50',
+          unitType: 'TASK',
+          unitPrice: '0',
+          minUnits: 1,
+          maxUnits: 1,
+          quoteRequired: false,
+        },
+        policy: {
+          challengeWindowSec: 3600,
+          postDisputeWindowSec: 7200,
+          deliveryWindowSec: 86400,
+          sellerBondBps: 0,
+        },
+        active: true,
+      },
+      ...activate(1, 100),
+      ...activate(2, 100),
+      submit(2, 200),
+      ...activate(3, 100),
+      submit(3, 250),
+      {
+        type: 'SubmissionDisputed',
+        ...at(3, 5, 300),
+        disputeURI: 'ipfs://dispute',
+      },
+    ]);
+
+    const [delivering, submitted, disputed] = indexer.getTasks().tasks;
+    expect(delivering).toMatchObject({
+      deliveryDeadline: 86_500,
+      challengeDeadline: null,
+      postDisputeDeadline: null,
+    });
+    expect(submitted?.challengeDeadline).toBe(3_800);
+    expect(disputed?.postDisputeDeadline).toBe(7_500);
+
+    const summarize = (now: number) =>
+      indexer
+        .getActionableTasks(now)
+        .map(({ task, action, callableBy }) => [
+          task.taskId,
+          action,
+          callableBy,
+        ]);
+    expect(summarize(3_799)).toEqual([]);
+    expect(summarize(5_000)).toEqual([[2, 'settleAfterTimeout', 'ANYONE']]);
+    expect(summarize(90_000)).toEqual([
+      [2, 'settleAfterTimeout', 'ANYONE'],
+      [3, 'settleAfterPostDisputeTimeout', 'ANYONE'],
+      [1, 'cancelForNonDelivery', 'BUYER'],
+    ]);
+  });
+
+  it('keeps ingesting and notifying others when a listener throws', () => {
+    const failures: [unknown, IndexerChange[]][] = [];
+    const indexer = new Indexer({
+      onListenerError: (error, changes) => failures.push([error, changes]),
+    });
+    const received: IndexerChange[][] = [];
+    indexer.subscribe(() => {
+      throw new Error('listener failed');
+    });
+    indexer.subscribe((changes) => received.push(changes));
+
+    const posted = (taskId: number): IndexerEvent => ({
+      type: 'TaskPosted',
+      blockNumber: taskId,
+      logIndex: 0,
+      timestamp: 100 * taskId,
+      taskId,
+      listingId: 1,
+      agentId: 1,
+      buyer: '0xBuyer',
+      taskURI: `ipfs://task-${taskId}`,
+      proposedUnits: 1,
+    });
+    expect(indexer.ingest([posted(1)])).toEqual([]);
+    expect(indexer.ingest([posted(2)])).toEqual([]);
+
+    expect(indexer.getTasksByAgent(1).map((task) => task.taskId)).toEqual([
+      1, 2,
+    ]);
+    expect(indexer.getCursor()).toBe(2);
+    expect(received.map((changes) => changes[0]?.id)).toEqual([1, 2]);
+    expect(failures).toHaveLength(2);
+    expect(failures[0]?.[0]).toEqual(new Error('listener failed'));
+    expect(failures[1]?.[1]).toEqual(received[1]);
+  });
+
+  it('publishes typed changes to filtered subscribers', () => {
+    const indexer = new Indexer();
+    const all: IndexerChange[][] = [];
+    const bobTasks: IndexerChange[][] = [];
+    const listing3: IndexerChange[][] = [];
+    indexer.subscribe((changes) => all.push(changes));
+    indexer.subscribe((changes) => bobTasks.push(changes), {
+      entity: 'task',
+      buyer: '0xBOB',
+    });
+    const unsubscribe = indexer.subscribe((changes) => listing3.push(changes), {
+      entity: 'listing',
+      id: 3,
+    });
+
+    indexer.ingest([
+      {
+        type: 'ListingCreated',
+        blockNumber: 1,
+        logIndex: 0,
+        timestamp: 10,
+        listingId: 3,
+        agentId: 4,
+        listingURI: 'ipfs://listing-3',
+        pricing: {
+          paymentToken: '0xToken',
+          basePrice: '10',
+          unitType: 'TASK',
+          unitPrice: '0',
+          minUnits: 1,
+          maxUnits: 1,
+          quoteRequired: false,
+        },
+        policy: {
+          challengeWindowSec: 3600,
+          postDisputeWindowSec: 0,
+          deliveryWindowSec: 86400,
+          sellerBondBps: 0,
+        },
+        active: true,
+      },
+      {
+        type: 'TaskPosted',
+        blockNumber: 1,
+        logIndex: 1,
+        timestamp: 10,
+        taskId: 5,
+        listingId: 3,
+        agentId: 4,
+        buyer: '0xbob',
+        taskURI: 'ipfs://task-5',
+        proposedUnits: 1,
+      },
+    ]);
+    expect(all).toHaveLength(1);
+    expect(all[0]?.map((change) => [change.entity, change.id])).toEqual([
+      ['listing', 3],
+      ['task', 5],
+    ]);
+    expect(all[0]?.[1]).toMatchObject({ before: null, agentId: 4 });
+
+    indexer.ingest([
+      {
+        type: 'ListingUpdated',
+        blockNumber: 2,
+        logIndex: 0,
+        timestamp: 20,
+        listingId: 3,
+        agentId: 4,
+        listingURI: 'ipfs://listing-3',
+        active: false,
+      },
+      {
+        type: 'TaskCancelled',
+        blockNumber: 2,
+        logIndex: 1,
+        timestamp: 20,
+        taskId: 5,
+      },
+    ]);
+
+    const [deactivated] = listing3[1] ?? [];
+    expect(deactivated?.entity).toBe('listing');
+    if (deactivated?.entity === 'listing') {
+      expect(deactivated.changedFields).toEqual(['active', 'updatedAt']);
+      expect([deactivated.before?.active, deactivated.after.active]).toEqual([
+        true,
+        false,
+      ]);
+    }
+    const [cancelled] = bobTasks[1] ?? [];
+    if (cancelled?.entity === 'task') {
+      expect([cancelled.before?.status, cancelled.after.status]).toEqual([
+        'OPEN',
+        'CANCELLED',
+      ]);
+    }
+    expect(cancelled?.changedFields).toContain('cancelReason');
+
+    unsubscribe();
+    indexer.setListingCuration(3, {
+      updatedAt: 30,
+      badges: {
+        metadata_validated: true,
+        endpoint_verified: false,
+        probe_passed: false,
+      },
+      riskScore: 0,
+      probeScore: 0,
+      probeEvidenceURI: null,
+      lint: { valid: true, errors: [], warnings: [], spamSignals: [] },
+      endpointHealth: {
+        total: 0,
+        okCount: 0,
+        failedCount: 0,
+        checkedAt: 30,
+      },
+    });
+    expect(listing3).toHaveLength(2);
+    expect(all[2]?.[0]).toMatchObject({
+      entity: 'listing',
+      changedFields: ['curation'],
+    });
+  });
 });
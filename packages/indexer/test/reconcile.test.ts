@@ -0,0 +1,333 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as http from 'node:http';
+import type { IndexerEvent } from '../src/indexer';
+import { Indexer } from '../src/indexer';
+import { FUNCTION_SELECTORS, reconcile } from '../src/reconcile';
+
+const LISTING_REGISTRY = '0x00000000000000000000000000000000000000a1';
+const TASK_MARKET = '0x00000000000000000000000000000000000000b2';
+const BUYER = '0x00000000000000000000000000000000000000D4';
+const TOKEN = '0x00000000000000000000000000000000000000e5';
+
+const word = (value: number | bigint | boolean) =>
+  BigInt(typeof value === 'boolean' ? Number(value) : value)
+    .toString(16)
+    .padStart(64, '0');
+const addressWord = (address: string) =>
+  address.replace(/^0x/, '').toLowerCase().padStart(64, '0');
+
+type AbiValue =
+  | { kind: 'uint'; value: number }
+  | { kind: 'bool'; value: boolean }
+  | { kind: 'address'; value: string }
+  | { kind: 'bytes32'; value: string }
+  | { kind: 'string'; value: string };
+
+function encode(values: AbiValue[]): string {
+  const head: string[] = [];
+  const tail: string[] = [];
+  let tailOffset = values.length * 32;
+  for (const entry of values) {
+    if (entry.kind === 'string') {
+      const bytes = Buffer.from(entry.value, 'utf8').toString('hex');
+      const padded = bytes.padEnd(Math.ceil(bytes.length / 64) * 64, '0');
+      head.push(word(tailOffset));
+      tail.push(word(bytes.length / 2) + padded);
+      tailOffset += 32 + padded.length / 2;
+    } else if (entry.kind === 'address') {
+      head.push(addressWord(entry.value));
+    } else if (entry.kind === 'bytes32') {
+      head.push(entry.value.replace(/^0x/, '').padEnd(64, '0'));
+    } else {
+      head.push(word(entry.value));
+    }
+  }
+  return head.join('') + tail.join('');
+}
+
+const uint = (value: number): AbiValue => ({ kind: 'uint', value });
+const zeroAddress: AbiValue = { kind: 'address', value: '0x0' };
+
+// getTask returns a single dynamic struct, so the result opens with its offset.
+const taskResult = (quotedTotalPrice: number) =>
+  `0x${word(32)}${encode([
+    uint(1),
+    uint(1),
+    uint(7),
+    { kind: 'address', value: BUYER },
+    zeroAddress,
+    { kind: 'address', value: TOKEN },
+    { kind: 'string', value: 'ipfs://task-1' },
+    uint(3),
+    uint(3),
+    uint(quotedTotalPrice),
+    uint(0),
+    uint(0),
+    uint(0),
+    zeroAddress,
+    { kind: 'string', value: '' },
+    { kind: 'bytes32', value: '' },
+    uint(0),
+    uint(0),
+    uint(0),
+    uint(1),
+    { kind: 'bool', value: false },
+  ])}`;
+
+const listingResult = (challengeWindowSec: number) =>
+  `0x${encode([
+    uint(7),
+    { kind: 'string', value: 'ipfs://listing-1' },
+    { kind: 'address', value: TOKEN },
+    uint(100),
+    { kind: 'bytes32', value: Buffer.from('LOC').toString('hex') },
+    uint(10),
+    uint(1),
+    uint(50),
+    { kind: 'bool', value: false },
+    uint(challengeWindowSec),
+    uint(7200),
+    uint(86400),
+    uint(0),
+    { kind: 'bool', value: true },
+  ])}`;
+
+const events: IndexerEvent[] = [
+  {
+    type: 'ListingCreated',
+    blockNumber: 1,
+    logIndex: 0,
+    timestamp: 100,
+    listingId: 1,
+    agentId: 7,
+    listingURI: 'ipfs://listing-1',
+    pricing: {
+      paymentToken: TOKEN,
+      basePrice: '100',
+      unitType: 'LOC',
+      unitPrice: '10',
+      minUnits: 1,
+      maxUnits: 50,
+      quoteRequired: false,
+    },
+    policy: {
+      challengeWindowSec: 3600,
+      postDisputeWindowSec: 7200,
+      deliveryWindowSec: 86400,
+      sellerBondBps: 0,
+    },
+    active: true,
+  },
+  {
+    type: 'TaskPosted',
+    blockNumber: 2,
+    logIndex: 0,
+    timestamp: 200,
+    taskId: 1,
+    listingId: 1,
+    agentId: 7,
+    buyer: BUYER,
+    taskURI: 'ipfs://task-1',
+    proposedUnits: 3,
+  },
+  {
+    type: 'TaskAccepted',
+    blockNumber: 2,
+    logIndex: 1,
+    timestamp: 200,
+    taskId: 1,
+  },
+  {
+    type: 'TaskPosted',
+    blockNumber: 3,
+    logIndex: 0,
+    timestamp: 300,
+    taskId: 2,
+    listingId: 1,
+    agentId: 7,
+    buyer: BUYER,
+    taskURI: 'ipfs://task-2',
+    proposedUnits: 1,
+  },
+];
+
+describe('reconcile', () => {
+  let server: http.Server | null = null;
+  let rpcUrl = '';
+  let chainPrice = 130;
+  let chainChallengeWindow = 3600;
+  const blockTags: string[] = [];
+
+  beforeEach(async () => {
+    chainPrice = 130;
+    chainChallengeWindow = 3600;
+    blockTags.length = 0;
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const request = JSON.parse(body) as {
+          id: number;
+          method: string;
+          params: [{ to: string; data: string }, string];
+        };
+        const [{ to, data }, blockTag] = request.params;
+        blockTags.push(blockTag);
+        const id = Number(BigInt(`0x${data.slice(10)}`));
+        let reply: object;
+        if (to === TASK_MARKET && data.startsWith(FUNCTION_SELECTORS.getTask)) {
+          const revertData = `0x08c379a0${encode([
+            { kind: 'string', value: 'TaskMarket: task not found' },
+          ])}`;
+          // Nodes differ in where they put the revert data and in how they
+          // word the message; task 3 fails for a reason unrelated to it.
+          reply =
+            id === 1
+              ? { result: taskResult(chainPrice) }
+              : id === 2
+                ? {
+                    error: {
+                      code: 3,
+                      message: 'execution reverted',
+                      data: revertData,
+                    },
+                  }
+                : id === 3
+                  ? { error: { code: -32000, message: 'header not found' } }
+                  : {
+                      error: {
+                        code: -32603,
+                        message: 'Error: VM Exception while processing',
+                        data: { message: 'revert', data: revertData },
+                      },
+                    };
+        } else if (
+          to === LISTING_REGISTRY &&
+          data.startsWith(FUNCTION_SELECTORS.getListing)
+        ) {
+          reply = { result: listingResult(chainChallengeWindow) };
+        } else {
+          reply = { error: { code: -32601, message: 'unexpected call' } };
+        }
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id, ...reply }));
+      });
+    });
+
+    await new Promise<void>((resolve) => {
+      server?.listen(0, '127.0.0.1', () => resolve());
+    });
+
+    const address = server?.address();
+    if (typeof address === 'object' && address?.port) {
+      rpcUrl = `http://127.0.0.1:${address.port}`;
+    }
+  });
+
+  afterEach(async () => {
+    if (!server) return;
+    await new Promise<void>((resolve) => server?.close(() => resolve()));
+    server = null;
+    rpcUrl = '';
+  });
+
+  const addresses = {
+    listingRegistry: LISTING_REGISTRY,
+    taskMarket: TASK_MARKET,
+  };
+
+  it('reports nothing when the index matches chain', async () => {
+    const indexer = new Indexer();
+    indexer.ingest(events);
+
+    const report = await reconcile(indexer, {
+      rpcUrl,
+      addresses,
+      taskIds: [1],
+    });
+
+    expect(report).toEqual({
+      blockTag: '0x3',
+      tasksChecked: 1,
+      listingsChecked: 1,
+      mismatches: [],
+      missing: [],
+      repaired: 0,
+    });
+    expect(new Set(blockTags)).toEqual(new Set(['0x3']));
+  });
+
+  it('lists drifted fields and records missing on either side', async () => {
+    const indexer = new Indexer();
+    indexer.ingest(events);
+    chainPrice = 150;
+    chainChallengeWindow = 600;
+
+    const report = await reconcile(indexer, {
+      rpcUrl,
+      addresses,
+      taskIds: [1, 2, 9],
+    });
+
+    expect(report.mismatches).toEqual([
+      {
+        entity: 'task',
+        id: 1,
+        field: 'quotedTotalPrice',
+        indexed: '130',
+        onChain: '150',
+      },
+      {
+        entity: 'listing',
+        id: 1,
+        field: 'policy.challengeWindowSec',
+        indexed: 3600,
+        onChain: 600,
+      },
+    ]);
+    expect(report.missing).toEqual([
+      { entity: 'task', id: 2, missingFrom: 'chain' },
+      { entity: 'task', id: 9, missingFrom: 'index' },
+    ]);
+    expect(indexer.getTask(1)?.quotedTotalPrice).toBe('130');
+  });
+
+  it('fails on an RPC error that is not a missing record', async () => {
+    const indexer = new Indexer();
+    indexer.ingest(events);
+
+    await expect(
+      reconcile(indexer, { rpcUrl, addresses, taskIds: [3] }),
+    ).rejects.toThrow('RPC eth_call failed: header not found');
+  });
+
+  it('overwrites drifted records from chain when repairing', async () => {
+    const indexer = new Indexer();
+    indexer.ingest(events);
+    chainPrice = 150;
+    chainChallengeWindow = 600;
+
+    const report = await reconcile(indexer, {
+      rpcUrl,
+      addresses,
+      taskIds: [1],
+      repair: true,
+    });
+
+    expect(report.repaired).toBe(2);
+    expect(indexer.getTask(1)?.quotedTotalPrice).toBe('150');
+    expect(indexer.getListings()[0]?.policy).toEqual({
+      challengeWindowSec: 600,
+      postDisputeWindowSec: 7200,
+      deliveryWindowSec: 86400,
+      sellerBondBps: 0,
+    });
+
+    const again = await reconcile(indexer, {
+      rpcUrl,
+      addresses,
+      taskIds: [1],
+    });
+    expect(again.mismatches).toEqual([]);
+  });
+});
@@ -0,0 +1,267 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'node:fs/promises';
+import * as http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import type { RpcLog } from '../src/chain-source';
+import { EVENT_TOPICS } from '../src/chain-source';
+import type { IndexerEvent } from '../src/indexer';
+import { Indexer } from '../src/indexer';
+import {
+  bootstrapFromSnapshot,
+  compareSnapshot,
+  createSnapshot,
+  openSnapshot,
+  readSnapshot,
+  verifySnapshot,
+  writeSnapshot,
+} from '../src/snapshot';
+import { MemoryStore } from '../src/store';
+
+const TASK_MARKET = '0x00000000000000000000000000000000000000b2';
+const BUYER = '0x00000000000000000000000000000000000000d4';
+
+const word = (value: number) => value.toString(16).padStart(64, '0');
+
+const events: IndexerEvent[] = [
+  {
+    type: 'ListingCreated',
+    blockNumber: 1,
+    logIndex: 0,
+    timestamp: 100,
+    listingId: 1,
+    agentId: 7,
+    listingURI: 'ipfs://listing-1',
+    pricing: {
+      paymentToken: '0xToken',
+      basePrice: '100',
+      unitType: 'LOC',
+      unitPrice: '10',
+      minUnits: 1,
+      maxUnits: 50,
+      quoteRequired: false,
+    },
+    policy: {
+      challengeWindowSec: 3600,
+      postDisputeWindowSec: 7200,
+      deliveryWindowSec: 86400,
+      sellerBondBps: 0,
+    },
+    active: true,
+  },
+  {
+    type: 'TaskPosted',
+    blockNumber: 2,
+    logIndex: 0,
+    timestamp: 200,
+    taskId: 1,
+    listingId: 1,
+    agentId: 7,
+    buyer: BUYER,
+    taskURI: 'ipfs://task-1',
+    proposedUnits: 3,
+  },
+  {
+    type: 'TaskAccepted',
+    blockNumber: 3,
+    logIndex: 0,
+    timestamp: 300,
+    taskId: 1,
+  },
+];
+
+describe('snapshots', () => {
+  let dir = '';
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'moes-snapshot-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('bootstraps from a snapshot file and catches up from its cursor', async () => {
+    const source = new Indexer();
+    source.ingest(events.slice(0, 2));
+    const file = path.join(dir, 'snapshot.json');
+    await writeSnapshot(file, createSnapshot(source));
+
+    const snapshot = await readSnapshot(file);
+    expect(snapshot.cursor).toBe(2);
+    const restored = bootstrapFromSnapshot(snapshot);
+    expect(restored.getCursor()).toBe(2);
+    expect(restored.getTaskHistory(1)).toHaveLength(1);
+
+    // Replayed events up to the cursor are skipped, later ones applied.
+    restored.ingest(events);
+    const replayed = new Indexer();
+    replayed.ingest(events);
+    expect(restored.exportState()).toEqual(replayed.exportState());
+  });
+
+  it('rejects snapshots that were altered or signed under another key', () => {
+    const source = new Indexer();
+    source.ingest(events);
+
+    const tampered = createSnapshot(source);
+    tampered.state.tasks[0]!.taskURI = 'ipfs://forged';
+    expect(() => openSnapshot(tampered)).toThrow(
+      'Snapshot checksum does not match its contents',
+    );
+
+    const signed = createSnapshot(source, { secret: 'alpha' });
+    expect(signed.checksum.algorithm).toBe('hmac-sha256');
+    expect(() => openSnapshot(signed, { secret: 'beta' })).toThrow(
+      'Snapshot checksum does not match its contents',
+    );
+    expect(() => openSnapshot(signed)).toThrow(
+      'Snapshot is checksummed with hmac-sha256; expected sha256',
+    );
+    expect(openSnapshot(signed, { secret: 'alpha' }).tasks).toHaveLength(1);
+  });
+
+  it('refuses to bootstrap into a store that already holds state', () => {
+    const source = new Indexer();
+    source.ingest(events);
+    const store = new MemoryStore();
+    new Indexer({ store }).ingest(events.slice(0, 1));
+
+    expect(() =>
+      bootstrapFromSnapshot(createSnapshot(source), { store }),
+    ).toThrow('Cannot restore state into a store that is in use');
+  });
+
+  it('lists the records that differ from an independent replay', () => {
+    const source = new Indexer();
+    source.ingest(events);
+    source.setListingCuration(1, {
+      updatedAt: 400,
+      badges: {
+        metadata_validated: true,
+        endpoint_verified: false,
+        probe_passed: false,
+      },
+      riskScore: 0,
+      probeScore: 0,
+      probeEvidenceURI: null,
+      lint: { valid: true, errors: [], warnings: [], spamSignals: [] },
+      endpointHealth: { total: 0, okCount: 0, failedCount: 0, checkedAt: 400 },
+    });
+    const snapshot = createSnapshot(source);
+
+    const replayed = new Indexer();
+    replayed.ingest(events);
+    expect(compareSnapshot(snapshot, replayed).differences).toEqual([]);
+
+    const partial = new Indexer();
+    partial.ingest(events.slice(0, 2));
+    partial.advanceHead(3);
+    expect(
+      compareSnapshot(snapshot, partial).differences.map(
+        ({ section, key }) => `${section}:${key}`,
+      ),
+    ).toEqual(['tasks:1', 'events:3:0']);
+  });
+});
+
+describe('verifySnapshot', () => {
+  let server: http.Server | null = null;
+  let rpcUrl = '';
+  const logs: RpcLog[] = [
+    {
+      address: TASK_MARKET,
+      topics: [
+        EVENT_TOPICS.TaskPosted,
+        `0x${word(1)}`,
+        `0x${word(1)}`,
+        `0x${word(7)}`,
+      ],
+      // (address buyer, string taskURI, uint256 proposedUnits)
+      data: `0x${BUYER.slice(2).padStart(64, '0')}${word(96)}${word(3)}${word(
+        13,
+      )}${Buffer.from('ipfs://task-1').toString('hex').padEnd(64, '0')}`,
+      blockNumber: '0x2',
+      blockHash: `0x${word(1002)}`,
+      logIndex: '0x0',
+    },
+  ];
+
+  beforeEach(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const request = JSON.parse(body) as {
+          id: number;
+          method: string;
+          params: unknown[];
+        };
+        let result: unknown = null;
+        if (request.method === 'eth_blockNumber') {
+          result = '0x9';
+        } else if (request.method === 'eth_getLogs') {
+          const filter = request.params[0] as {
+            fromBlock: string;
+            toBlock: string;
+          };
+          result = logs.filter(
+            (entry) =>
+              Number(entry.blockNumber) >= Number(filter.fromBlock) &&
+              Number(entry.blockNumber) <= Number(filter.toBlock),
+          );
+        } else if (request.method === 'eth_getBlockByNumber') {
+          const block = Number(request.params[0]);
+          result = {
+            hash: `0x${word(block + 1000)}`,
+            timestamp: `0x${(block * 100).toString(16)}`,
+          };
+        }
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id, result }));
+      });
+    });
+
+    await new Promise<void>((resolve) => {
+      server?.listen(0, '127.0.0.1', () => resolve());
+    });
+
+    const address = server?.address();
+    if (typeof address === 'object' && address?.port) {
+      rpcUrl = `http://127.0.0.1:${address.port}`;
+    }
+  });
+
+  afterEach(async () => {
+    if (!server) return;
+    await new Promise<void>((resolve) => server?.close(() => resolve()));
+    server = null;
+    rpcUrl = '';
+  });
+
+  it('replays the chain up to the snapshot cursor and compares', async () => {
+    const source = new Indexer();
+    source.ingest([
+      {
+        type: 'TaskPosted',
+        blockNumber: 2,
+        logIndex: 0,
+        timestamp: 200,
+        blockHash: `0x${word(1002)}`,
+        taskId: 1,
+        listingId: 1,
+        agentId: 7,
+        buyer: BUYER,
+        taskURI: 'ipfs://task-1',
+        proposedUnits: 3,
+      },
+    ]);
+    source.advanceHead(4);
+
+    const verification = await verifySnapshot(createSnapshot(source), {
+      rpcUrl,
+      addresses: { taskMarket: TASK_MARKET },
+    });
+    expect(verification).toEqual({ cursor: 4, differences: [] });
+  });
+});
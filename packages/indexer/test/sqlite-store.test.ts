@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import type { IndexerEvent } from '../src/indexer';
+import { Indexer } from '../src/indexer';
+import { SCHEMA_VERSION } from '../src/migrations';
+import { SqliteStore } from '../src/sqlite-store';
+
+const listing = (
+  listingId: number,
+  agentId: number,
+  blockNumber: number,
+  logIndex: number,
+): IndexerEvent => ({
+  type: 'ListingCreated',
+  blockNumber,
+  logIndex,
+  timestamp: blockNumber * 10,
+  listingId,
+  agentId,
+  listingURI: `ipfs://listing-${listingId}`,
+  pricing: {
+    paymentToken: '0xToken',
+    basePrice: '100',
+    unitType: 'LOC',
+    unitPrice: '10',
+    minUnits: 1,
+    maxUnits: 100,
+    quoteRequired: false,
+  },
+  policy: {
+    challengeWindowSec: 3600,
+    postDisputeWindowSec: 0,
+    deliveryWindowSec: 86400,
+    sellerBondBps: 0,
+  },
+  active: true,
+});
+
+describe('SqliteStore', () => {
+  let dir = '';
+  let filename = '';
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'moes-sqlite-'));
+    filename = path.join(dir, 'indexer.db');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('upserts records as events are applied and resumes after reopening', () => {
+    const store = new SqliteStore(filename);
+    const indexer = new Indexer({ store });
+    indexer.ingest([
+      listing(1, 1, 1, 0),
+      listing(2, 2, 1, 1),
+      {
+        type: 'ListingUpdated',
+        blockNumber: 2,
+        logIndex: 0,
+        timestamp: 20,
+        listingId: 2,
+        agentId: 2,
+        listingURI: 'ipfs://listing-2-updated',
+        active: false,
+      },
+      {
+        type: 'TaskPosted',
+        blockNumber: 3,
+        logIndex: 0,
+        timestamp: 30,
+        taskId: 1,
+        listingId: 1,
+        agentId: 1,
+        buyer: '0xBuyer',
+        taskURI: 'ipfs://task-1',
+        proposedUnits: 3,
+      },
+      {
+        type: 'TaskAccepted',
+        blockNumber: 3,
+        logIndex: 1,
+        timestamp: 30,
+        taskId: 1,
+      },
+      {
+        type: 'Transfer',
+        blockNumber: 3,
+        logIndex: 2,
+        timestamp: 30,
+        agentId: 1,
+        from: '0xSeller',
+        to: '0xNewOwner',
+      },
+    ]);
+    store.close();
+
+    const reopened = new SqliteStore(filename);
+    const restarted = new Indexer({ store: reopened });
+    expect(restarted.getCursor()).toBe(3);
+    expect(
+      restarted.getListings({ active: true }).map((l) => l.listingId),
+    ).toEqual([1]);
+    expect(restarted.getListings({ agentId: 2 })[0]?.listingURI).toBe(
+      'ipfs://listing-2-updated',
+    );
+
+    const [task] = restarted.getTasksByAgent(1);
+    expect(task?.status).toBe('QUOTED');
+    expect(task?.quotedTotalPrice).toBe('130');
+    expect(restarted.getTasksByAgent(2)).toEqual([]);
+    expect(
+      restarted.getAgentsByOwner('0xNewOwner').map((a) => a.agentId),
+    ).toEqual([1]);
+    expect(restarted.getAgentTransfers(1)).toHaveLength(1);
+
+    restarted.ingest([
+      {
+        type: 'TaskPosted',
+        blockNumber: 3,
+        logIndex: 0,
+        timestamp: 30,
+        taskId: 1,
+        listingId: 1,
+        agentId: 1,
+        buyer: '0xBuyer',
+        taskURI: 'ipfs://task-1',
+        proposedUnits: 3,
+      },
+    ]);
+    expect(restarted.getTasksByAgent(1)[0]?.status).toBe('QUOTED');
+    expect(restarted.getAgentMetrics(1).postedCount).toBe(1);
+    expect(restarted.getListingMetrics(1).postedCount).toBe(1);
+    expect(restarted.getListingMetrics(2).postedCount).toBe(0);
+    expect(restarted.getBuyerMetrics('0xBUYER').postedCount).toBe(1);
+    expect(
+      restarted.getTasks({ status: ['QUOTED', 'ACTIVE'], buyer: '0xbuyer' })
+        .tasks,
+    ).toHaveLength(1);
+    expect(restarted.getTasks({ status: 'SETTLED' }).tasks).toEqual([]);
+    expect(restarted.getTaskHistory(1).map((event) => event.type)).toEqual([
+      'TaskPosted',
+      'TaskAccepted',
+    ]);
+    expect(
+      restarted
+        .materializeAt({ blockNumber: 1 })
+        .getListings({ active: true })
+        .map((l) => l.listingId),
+    ).toEqual([1, 2]);
+    reopened.close();
+  });
+
+  it('migrates rows written by an older schema when opened', () => {
+    const store = new SqliteStore(filename);
+    new Indexer({ store }).ingest([
+      {
+        type: 'TaskPosted',
+        blockNumber: 1,
+        logIndex: 0,
+        timestamp: 10,
+        taskId: 1,
+        listingId: 1,
+        agentId: 1,
+        buyer: '0xBuyer',
+        taskURI: 'ipfs://task-1',
+        proposedUnits: 1,
+      },
+    ]);
+    store.close();
+
+    // Strip fields added after schema 3 and clear the version marker, as a
+    // database written before versioning would look.
+    const db = new Database(filename);
+    const { data } = db.prepare('SELECT data FROM tasks').get() as {
+      data: string;
+    };
+    const { cancelReason, postDisputeTimeoutAt, ...legacy } = JSON.parse(data);
+    expect([cancelReason, postDisputeTimeoutAt]).toEqual([null, null]);
+    db.prepare('UPDATE tasks SET data = ?').run(JSON.stringify(legacy));
+    db.pragma('user_version = 0');
+    db.close();
+
+    const reopened = new SqliteStore(filename);
+    expect(reopened.getTask(1)).toMatchObject({
+      taskURI: 'ipfs://task-1',
+      cancelReason: null,
+      postDisputeTimeoutAt: null,
+    });
+    reopened.close();
+
+    const check = new Database(filename);
+    expect(check.pragma('user_version', { simple: true })).toBe(SCHEMA_VERSION);
+    check.close();
+  });
+});
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { Indexer } from '../src/indexer';
+import { SCHEMA_VERSION } from '../src/migrations';
+
+describe('JsonFileStore', () => {
+  let dir = '';
+  let persistPath = '';
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'moes-json-'));
+    persistPath = path.join(dir, 'state.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('upgrades unversioned snapshots and writes the current schema', async () => {
+    await fs.writeFile(
+      persistPath,
+      JSON.stringify({
+        listings: [],
+        tasks: [
+          {
+            taskId: 4,
+            listingId: 1,
+            agentId: 2,
+            buyer: '0xBuyer',
+            taskURI: 'ipfs://task-4',
+            proposedUnits: 1,
+            quotedUnits: 1,
+            quotedTotalPrice: 300,
+            quoteExpiry: null,
+            fundedAmount: 300,
+            sellerBond: null,
+            artifactURI: null,
+            artifactHash: null,
+            status: 'OPEN',
+            postedAt: 100,
+            acceptedAt: null,
+            submittedAt: null,
+            submissionAcceptedAt: null,
+            disputedAt: null,
+            settledAt: null,
+            cancelledAt: null,
+          },
+        ],
+        disputes: [],
+      }),
+    );
+
+    const indexer = new Indexer({ persistPath });
+    await indexer.load();
+    expect(indexer.getCursor()).toBe(-1);
+    expect(indexer.getTasksByAgent(2)[0]).toMatchObject({
+      taskURI: 'ipfs://task-4',
+      quotedTotalPrice: '300',
+      fundedAmount: '300',
+      cancelReason: null,
+      postDisputeTimeoutAt: null,
+      quotedAt: null,
+    });
+
+    await indexer.persist();
+    const written = JSON.parse(await fs.readFile(persistPath, 'utf8'));
+    expect(written.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(written.tasks).toHaveLength(1);
+    expect(written.tasks[0].fundedAmount).toBe('300');
+    expect(await fs.readdir(dir)).toEqual(['state.json']);
+  });
+
+  it('backfills quote times, dispute outcomes and deadlines and lowercases settlement addresses', async () => {
+    const event = (type: string, logIndex: number, extra = {}) => ({
+      type,
+      blockNumber: 5,
+      logIndex,
+      timestamp: 50 + logIndex,
+      taskId: 4,
+      ...extra,
+    });
+    await fs.writeFile(
+      persistPath,
+      JSON.stringify({
+        schemaVersion: 7,
+        listings: [
+          {
+            listingId: 1,
+            agentId: 2,
+            policy: {
+              challengeWindowSec: 100,
+              postDisputeWindowSec: 0,
+              sellerBondBps: 0,
+            },
+          },
+        ],
+        tasks: [
+          {
+            taskId: 4,
+            listingId: 1,
+            agentId: 2,
+            status: 'SETTLED',
+            fundedAmount: '10',
+            postedAt: 40,
+            submittedAt: 52,
+            disputedAt: 53,
+            settledAt: 54,
+            seller: '0xSeLLer',
+            bondFunder: '0xFUNDER',
+          },
+        ],
+        disputes: [
+          { taskId: 4, openedAt: 53, resolvedAt: null, outcome: null },
+        ],
+        events: [
+          event('QuoteProposed', 1, { quotedUnits: 1 }),
+          event('DisputeOpened', 3),
+          event('PostDisputeTimeoutSettled', 4, { outcome: 'SELLER_WINS' }),
+        ],
+        agents: [],
+        pendingEvents: [],
+        blockHashes: [],
+        headBlock: 5,
+        lastProcessedBlock: 5,
+        appliedEventKeys: [],
+      }),
+    );
+
+    const indexer = new Indexer({ persistPath });
+    await indexer.load();
+    expect(indexer.getTasksByAgent(2)[0]).toMatchObject({
+      quotedAt: 51,
+      challengeDeadline: 152,
+      deliveryDeadline: null,
+      seller: '0xseller',
+      bondFunder: '0xfunder',
+    });
+    expect(indexer.getListings()[0]?.policy?.deliveryWindowSec).toBeNull();
+    expect(indexer.getAgentMetrics(2)).toMatchObject({
+      sellerWinCount: 1,
+      disputeLossRate: 0,
+      settledVolume: '10',
+    });
+  });
+
+  it('refuses snapshots written by a newer schema', async () => {
+    await fs.writeFile(
+      persistPath,
+      JSON.stringify({
+        schemaVersion: SCHEMA_VERSION + 1,
+        listings: [],
+        tasks: [],
+        disputes: [],
+      }),
+    );
+
+    const indexer = new Indexer({ persistPath });
+    await expect(indexer.load()).rejects.toThrow(/newer than supported/);
+  });
+});
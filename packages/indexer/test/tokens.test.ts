@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { ListingCreatedEvent } from '../src/indexer';
+import { Indexer } from '../src/indexer';
+import { ERC20_SELECTORS, TokenRegistry } from '../src/tokens';
+
+const USDC = '0x00000000000000000000000000000000000000C1';
+const MKR = '0x00000000000000000000000000000000000000c2';
+const BROKEN = '0x00000000000000000000000000000000000000c3';
+const WETH = '0x00000000000000000000000000000000000000c4';
+
+const word = (value: number) => value.toString(16).padStart(64, '0');
+const stringResult = (value: string) => {
+  const hex = Buffer.from(value, 'utf8').toString('hex');
+  return `0x${word(32)}${word(hex.length / 2)}${hex.padEnd(64, '0')}`;
+};
+const bytes32Result = (value: string) =>
+  `0x${Buffer.from(value, 'utf8').toString('hex').padEnd(64, '0')}`;
+
+const listing = (
+  listingId: number,
+  paymentToken: string,
+): ListingCreatedEvent => ({
+  type: 'ListingCreated',
+  blockNumber: 1,
+  logIndex: listingId,
+  timestamp: 10,
+  listingId,
+  agentId: 1,
+  listingURI: `ipfs://listing-${listingId}`,
+  pricing: {
+    paymentToken,
+    basePrice: '0',
+    unitType: 'LOC',
+    unitPrice: '1000000',
+    minUnits: 1,
+    maxUnits: 10,
+    quoteRequired: false,
+  },
+  policy: {
+    challengeWindowSec: 3600,
+    postDisputeWindowSec: 7200,
+    deliveryWindowSec: 86400,
+    sellerBondBps: 0,
+  },
+  active: true,
+});
+
+describe('TokenRegistry', () => {
+  let server: http.Server;
+  let rpcUrl = '';
+  const calls: string[] = [];
+
+  beforeEach(async () => {
+    calls.length = 0;
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const request = JSON.parse(body) as {
+          id: number;
+          params: [{ to: string; data: string }, string];
+        };
+        const [{ to, data }] = request.params;
+        calls.push(`${to}:${data}`);
+        const results: Record<string, Record<string, string>> = {
+          [USDC.toLowerCase()]: {
+            [ERC20_SELECTORS.symbol]: stringResult('USDC'),
+            [ERC20_SELECTORS.decimals]: `0x${word(6)}`,
+          },
+          [MKR]: {
+            [ERC20_SELECTORS.symbol]: bytes32Result('MKR'),
+            [ERC20_SELECTORS.decimals]: `0x${word(18)}`,
+          },
+        };
+        const result = results[to]?.[data];
+        res.setHeader('content-type', 'application/json');
+        res.end(
+          JSON.stringify({
+            jsonrpc: '2.0',
+            id: request.id,
+            ...(result === undefined
+              ? { error: { code: 3, message: 'execution reverted' } }
+              : { result }),
+          }),
+        );
+      });
+    });
+    await new Promise<void>((resolve) => {
+      server.listen(0, '127.0.0.1', () => resolve());
+    });
+    rpcUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('reads metadata for payment tokens that config left out', async () => {
+    const registry = new TokenRegistry([
+      { address: WETH, symbol: 'WETH', decimals: 18, referencePrice: 3000 },
+    ]);
+    const indexer = new Indexer();
+    indexer.ingest([
+      listing(1, USDC),
+      listing(2, MKR),
+      listing(3, BROKEN),
+      listing(4, WETH),
+    ]);
+    const failed: string[] = [];
+
+    const added = await registry.sync(indexer, {
+      rpcUrl,
+      onError: (_error, address) => failed.push(address),
+    });
+
+    expect(added.map((token) => token.symbol)).toEqual(['USDC', 'MKR']);
+    expect(failed).toEqual([BROKEN]);
+    expect(registry.get(USDC)).toEqual({
+      address: USDC.toLowerCase(),
+      symbol: 'USDC',
+      decimals: 6,
+    });
+    expect(registry.get(MKR)).toMatchObject({ symbol: 'MKR', decimals: 18 });
+    expect(registry.getAll().map((token) => token.symbol)).toEqual([
+      'USDC',
+      'MKR',
+      'WETH',
+    ]);
+    expect(calls.some((call) => call.startsWith(WETH))).toBe(false);
+
+    calls.length = 0;
+    expect(await registry.sync(indexer, { rpcUrl })).toEqual([]);
+    expect(calls.every((call) => call.startsWith(BROKEN))).toBe(true);
+  });
+
+  it('rejects malformed config', () => {
+    const registry = new TokenRegistry();
+    expect(() =>
+      registry.register({ address: '0xToken', symbol: 'X', decimals: 6 }),
+    ).toThrow('Invalid token address');
+    expect(() =>
+      registry.register({ address: USDC, symbol: 'USDC', decimals: 6.5 }),
+    ).toThrow('Invalid decimals');
+    expect(() =>
+      registry.register({
+        address: USDC,
+        symbol: 'USDC',
+        decimals: 6,
+        referencePrice: 0,
+      }),
+    ).toThrow('Invalid reference price');
+  });
+});
@@ -1,21 +1,51 @@
 import MiniSearch from 'minisearch';
 import type { ListingMetadata } from '@moes/curation';
-import type { AgentMetrics, ListingCuration } from '@moes/indexer';
+import type { ListingCuration, TaskMetrics } from '@moes/indexer';
+import type { CompositeId, TokenAmount } from '@moes/shared';
+import { DEFAULT_TOKEN_DECIMALS, tokenAmountToNumber } from '@moes/shared';
 
 export type ListingPricing = {
   unitType: string;
-  unitPrice: number;
-  basePrice: number;
+  unitPrice: TokenAmount;
+  basePrice: TokenAmount;
+  /** Address of the ERC-20 the listing is priced in. */
+  paymentToken?: string;
+  /** Payment token symbol from the token registry, e.g. `USDC`. */
+  symbol?: string;
+  /** Decimals of the payment token; defaults to `DEFAULT_TOKEN_DECIMALS`. */
+  decimals?: number;
+  /**
+   * Value of one whole payment token in the registry's reference currency.
+   * Without one, prices are only compared with listings in the same token.
+   */
+  referencePrice?: number;
   minUnits: number;
   maxUnits: number;
 };
 
+export type ListingPolicy = {
+  challengeWindowSec: number;
+  postDisputeWindowSec: number;
+  /** Null when the indexed listing predates the delivery window. */
+  deliveryWindowSec: number | null;
+  sellerBondBps: number;
+};
+
 export type SearchListing = {
   listingId: number;
+  /**
+   * Set when the index holds listings from several deployments, whose
+   * listing IDs may collide; see `formatCompositeId`.
+   */
+  id?: CompositeId;
+  chainId?: number;
+  address?: string;
   agentId: number;
   metadata: ListingMetadata;
   pricing: ListingPricing;
-  metrics: AgentMetrics;
+  policy?: ListingPolicy | null;
+  /** Agent-wide or per-listing metrics; ranking only reads the rates. */
+  metrics: TaskMetrics;
   curation?: ListingCuration | null;
 };
 
@@ -43,6 +73,14 @@ export type SearchOptions = {
   text?: string;
   unitType?: string;
   priceBucket?: string;
+  /** Drops listings that allow longer, or do not say how long, to deliver. */
+  maxDeliveryWindowSec?: number;
+  /** Only listings from this chain; listings without a chain never match. */
+  chainId?: number;
+  /** Only listings from this deployment. Matched case-insensitively. */
+  address?: string;
+  /** Token symbol or address, matched case-insensitively. */
+  paymentToken?: string;
   weights?: Partial<SearchWeights>;
 };
 
@@ -57,7 +95,13 @@ export type SearchResult = {
 
 export type SearchFacets = {
   unitType: Record<string, number>;
+  /**
+   * Buckets of the unit price in the reference currency, or in whole tokens
+   * for tokens without a reference price.
+   */
   priceBucket: Record<string, number>;
+  /** Keyed by symbol, or by address for tokens missing from the registry. */
+  paymentToken: Record<string, number>;
 };
 
 export type SearchResponse = {
@@ -66,7 +110,7 @@ export type SearchResponse = {
 };
 
 type SearchDoc = {
-  listingId: number;
+  key: string;
   title: string;
   description: string;
   tags: string;
@@ -79,8 +123,10 @@ type PriceStats = {
 
 export type SearchIndex = {
   mini: MiniSearch<SearchDoc>;
-  listings: Map<number, SearchListing>;
-  priceStatsByUnitType: Map<string, PriceStats>;
+  /** Keyed by composite ID, or by listing ID for listings without one. */
+  listings: Map<string, SearchListing>;
+  /** Keyed by `priceOf(listing).group`. */
+  priceStatsByGroup: Map<string, PriceStats>;
 };
 
 const DEFAULT_WEIGHTS: SearchWeights = {
@@ -90,19 +136,40 @@ const DEFAULT_WEIGHTS: SearchWeights = {
 };
 
 const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+// Unit prices in whole tokens, so tokens with different decimals line up,
+// then in the reference currency where the token has a reference price.
+// Prices in the same group are comparable; a token without a reference
+// price gets a group of its own for each unit type.
+const priceOf = (listing: SearchListing) => {
+  const { unitType, paymentToken, referencePrice } = listing.pricing;
+  const tokens = tokenAmountToNumber(
+    listing.pricing.unitPrice,
+    listing.pricing.decimals ?? DEFAULT_TOKEN_DECIMALS,
+  );
+  return referencePrice === undefined
+    ? {
+        group: `${unitType}:${paymentToken?.toLowerCase() ?? ''}`,
+        value: tokens,
+      }
+    : { group: unitType, value: tokens * referencePrice };
+};
+const tokenFacetOf = (listing: SearchListing) =>
+  listing.pricing.symbol ?? listing.pricing.paymentToken?.toLowerCase();
+const keyOf = (listing: SearchListing) =>
+  listing.id ?? String(listing.listingId);
 const tokenizeQuery = (value: string) =>
   value.toLowerCase().match(/[a-z0-9]+/g) ?? [];
 
 export function buildSearchIndex(listings: SearchListing[]): SearchIndex {
   const mini = new MiniSearch<SearchDoc>({
-    idField: 'listingId',
+    idField: 'key',
     fields: ['title', 'description', 'tags'],
-    storeFields: ['listingId'],
+    storeFields: ['key'],
     processTerm: (term) => term.toLowerCase(),
   });
 
   const docs: SearchDoc[] = listings.map((listing) => ({
-    listingId: listing.listingId,
+    key: keyOf(listing),
     title: listing.metadata.title ?? '',
     description: listing.metadata.description ?? '',
     tags: Array.isArray(listing.metadata.tags)
@@ -112,23 +179,22 @@ export function buildSearchIndex(listings: SearchListing[]): SearchIndex {
 
   mini.addAll(docs);
 
-  const listingMap = new Map<number, SearchListing>();
-  const priceStatsByUnitType = new Map<string, PriceStats>();
+  const listingMap = new Map<string, SearchListing>();
+  const priceStatsByGroup = new Map<string, PriceStats>();
 
   for (const listing of listings) {
-    listingMap.set(listing.listingId, listing);
-    const unitType = listing.pricing.unitType;
-    const unitPrice = listing.pricing.unitPrice;
-    const existing = priceStatsByUnitType.get(unitType);
+    listingMap.set(keyOf(listing), listing);
+    const { group, value } = priceOf(listing);
+    const existing = priceStatsByGroup.get(group);
     if (!existing) {
-      priceStatsByUnitType.set(unitType, { min: unitPrice, max: unitPrice });
+      priceStatsByGroup.set(group, { min: value, max: value });
     } else {
-      existing.min = Math.min(existing.min, unitPrice);
-      existing.max = Math.max(existing.max, unitPrice);
+      existing.min = Math.min(existing.min, value);
+      existing.max = Math.max(existing.max, value);
     }
   }
 
-  return { mini, listings: listingMap, priceStatsByUnitType };
+  return { mini, listings: listingMap, priceStatsByGroup };
 }
 
 export function searchListings(
@@ -138,7 +204,7 @@ export function searchListings(
   const weights = { ...DEFAULT_WEIGHTS, ...options.weights };
   const text = options.text?.trim() ?? '';
 
-  let candidates: { listingId: number; relevanceScore: number }[] = [];
+  let candidates: { key: string; relevanceScore: number }[] = [];
 
   if (text.length > 0) {
     const queryTerms = new Set(tokenizeQuery(text));
@@ -149,7 +215,7 @@ export function searchListings(
       combineWith: 'OR',
     });
     candidates = results.map((result) => ({
-      listingId: Number(result.id),
+      key: String(result.id),
       relevanceScore: result.queryTerms
         ? new Set(
             result.queryTerms
@@ -159,45 +225,73 @@ export function searchListings(
         : 0,
     }));
   } else {
-    candidates = Array.from(index.listings.values()).map((listing) => ({
-      listingId: listing.listingId,
+    candidates = Array.from(index.listings.keys()).map((key) => ({
+      key,
       relevanceScore: 0,
     }));
   }
 
+  // Deployments outside the scope are left out of the facets as well.
+  const address = options.address?.toLowerCase();
+  candidates = candidates.filter((entry) => {
+    const listing = index.listings.get(entry.key);
+    return (
+      listing !== undefined &&
+      (options.chainId === undefined || listing.chainId === options.chainId) &&
+      (address === undefined || listing.address?.toLowerCase() === address)
+    );
+  });
+
   const facetListings = candidates
-    .map((entry) => index.listings.get(entry.listingId))
+    .map((entry) => index.listings.get(entry.key))
     .filter((listing): listing is SearchListing => Boolean(listing));
 
   const facets = computeFacets(facetListings);
 
   const filteredCandidates = candidates.filter((entry) => {
-    const listing = index.listings.get(entry.listingId);
+    const listing = index.listings.get(entry.key);
     if (!listing) return false;
     if (options.unitType && listing.pricing.unitType !== options.unitType)
       return false;
     if (options.priceBucket) {
-      const bucket = getPriceBucketId(listing.pricing.unitPrice);
+      const bucket = getPriceBucketId(priceOf(listing).value);
       if (bucket !== options.priceBucket) return false;
     }
+    if (options.paymentToken) {
+      const wanted = options.paymentToken.toLowerCase();
+      const { symbol, paymentToken } = listing.pricing;
+      if (
+        symbol?.toLowerCase() !== wanted &&
+        paymentToken?.toLowerCase() !== wanted
+      )
+        return false;
+    }
+    if (options.maxDeliveryWindowSec !== undefined) {
+      const deliveryWindowSec = listing.policy?.deliveryWindowSec ?? null;
+      if (
+        deliveryWindowSec === null ||
+        deliveryWindowSec > options.maxDeliveryWindowSec
+      )
+        return false;
+    }
     return true;
   });
 
   const results: SearchResult[] = filteredCandidates
     .map((entry) => {
-      const listing = index.listings.get(entry.listingId);
+      const listing = index.listings.get(entry.key);
       if (!listing) return null;
       const trustScore = computeTrustScore(listing);
       const economicsScore = computePriceScore(
         listing,
-        index.priceStatsByUnitType,
+        index.priceStatsByGroup,
       );
       const score =
         entry.relevanceScore * weights.relevance +
         trustScore * weights.trust +
         economicsScore * weights.economics;
       return {
-        listingId: entry.listingId,
+        listingId: listing.listingId,
         listing,
         score,
         relevanceScore: entry.relevanceScore,
@@ -208,7 +302,8 @@ export function searchListings(
     .filter((result): result is SearchResult => Boolean(result))
     .sort((a, b) => {
       if (b.score !== a.score) return b.score - a.score;
-      return a.listingId - b.listingId;
+      if (a.listingId !== b.listingId) return a.listingId - b.listingId;
+      return keyOf(a.listing).localeCompare(keyOf(b.listing));
     });
 
   return { results, facets };
@@ -217,16 +312,22 @@ export function searchListings(
 function computeFacets(listings: SearchListing[]): SearchFacets {
   const unitType: Record<string, number> = {};
   const priceBucket: Record<string, number> = {};
+  const paymentToken: Record<string, number> = {};
 
   for (const listing of listings) {
     const unit = listing.pricing.unitType;
     unitType[unit] = (unitType[unit] ?? 0) + 1;
 
-    const bucketId = getPriceBucketId(listing.pricing.unitPrice);
+    const bucketId = getPriceBucketId(priceOf(listing).value);
     priceBucket[bucketId] = (priceBucket[bucketId] ?? 0) + 1;
+
+    const token = tokenFacetOf(listing);
+    if (token !== undefined) {
+      paymentToken[token] = (paymentToken[token] ?? 0) + 1;
+    }
   }
 
-  return { unitType, priceBucket };
+  return { unitType, priceBucket, paymentToken };
 }
 
 function getPriceBucketId(unitPrice: number): string {
@@ -241,7 +342,7 @@ function getPriceBucketId(unitPrice: number): string {
 function computeTrustScore(listing: SearchListing): number {
   const metrics = listing.metrics;
   const acceptRate = clamp01(metrics.acceptRate);
-  const disputeRate = clamp01(metrics.disputeRate);
+  const disputeLossRate = clamp01(metrics.disputeLossRate);
   const silentRate = clamp01(metrics.silentAutoReleaseFrequency);
 
   const curation = listing.curation ?? null;
@@ -262,7 +363,7 @@ function computeTrustScore(listing: SearchListing): number {
   const riskPenalty = clamp01((curation?.riskScore ?? 0) / 100);
   const trust =
     acceptRate * 0.4 +
-    (1 - disputeRate) * 0.25 +
+    (1 - disputeLossRate) * 0.25 +
     (1 - silentRate) * 0.15 +
     probeScore * 0.2 +
     badgeBonus;
@@ -272,12 +373,12 @@ function computeTrustScore(listing: SearchListing): number {
 
 function computePriceScore(
   listing: SearchListing,
-  priceStatsByUnitType: Map<string, PriceStats>,
+  priceStatsByGroup: Map<string, PriceStats>,
 ): number {
-  const stats = priceStatsByUnitType.get(listing.pricing.unitType);
+  const { group, value } = priceOf(listing);
+  const stats = priceStatsByGroup.get(group);
   if (!stats) return 0.5;
   if (stats.max === stats.min) return 1;
-  const normalized =
-    (listing.pricing.unitPrice - stats.min) / (stats.max - stats.min);
+  const normalized = (value - stats.min) / (stats.max - stats.min);
   return clamp01(1 - normalized);
 }
@@ -1,4 +1,5 @@
 import { describe, expect, it } from 'vitest';
+import { parseTokenAmount } from '@moes/shared';
 import { buildSearchIndex, searchListings } from '../src/search';
 import type { SearchListing } from '../src/search';
 
@@ -13,11 +14,17 @@ const fixtures: SearchListing[] = [
     },
     pricing: {
       unitType: 'LOC',
-      unitPrice: 120,
-      basePrice: 100,
+      unitPrice: parseTokenAmount('120', 18),
+      basePrice: parseTokenAmount('100', 18),
       minUnits: 10,
       maxUnits: 200,
     },
+    policy: {
+      challengeWindowSec: 3600,
+      postDisputeWindowSec: 0,
+      deliveryWindowSec: 86400,
+      sellerBondBps: 0,
+    },
     metrics: {
       agentId: 11,
       postedCount: 12,
@@ -27,11 +34,28 @@ const fixtures: SearchListing[] = [
       settledCount: 9,
       autoReleaseCount: 1,
       cancelCount: 1,
+      buyerCancelCount: 1,
+      sellerCancelCount: 0,
+      nonDeliveryCount: 0,
+      postDisputeTimeoutCount: 0,
       acceptRate: 0.9,
       disputeRate: 0.05,
       cancelRate: 0.08,
+      nonDeliveryRate: 0,
       silentAutoReleaseFrequency: 0.1,
       avgTimeToSubmitSec: 3600,
+      p50TimeToQuoteSec: 600,
+      p90TimeToQuoteSec: 1800,
+      p50TimeToSubmitSec: 3600,
+      p90TimeToSubmitSec: 10800,
+      p50TimeToSettleSec: 3600,
+      p90TimeToSettleSec: 86400,
+      sellerWinCount: 0,
+      buyerWinCount: 1,
+      splitCount: 0,
+      disputeCancelCount: 0,
+      disputeLossRate: 0.05,
+      settledVolume: '0',
     },
     curation: {
       updatedAt: 1700000000,
@@ -67,11 +91,17 @@ const fixtures: SearchListing[] = [
     },
     pricing: {
       unitType: 'LOC',
-      unitPrice: 80,
-      basePrice: 50,
+      unitPrice: parseTokenAmount('80', 18),
+      basePrice: parseTokenAmount('50', 18),
       minUnits: 5,
       maxUnits: 120,
     },
+    policy: {
+      challengeWindowSec: 3600,
+      postDisputeWindowSec: 0,
+      deliveryWindowSec: 604800,
+      sellerBondBps: 0,
+    },
     metrics: {
       agentId: 22,
       postedCount: 20,
@@ -81,11 +111,28 @@ const fixtures: SearchListing[] = [
       settledCount: 10,
       autoReleaseCount: 2,
       cancelCount: 2,
+      buyerCancelCount: 2,
+      sellerCancelCount: 0,
+      nonDeliveryCount: 0,
+      postDisputeTimeoutCount: 0,
       acceptRate: 0.6,
       disputeRate: 0.2,
       cancelRate: 0.1,
+      nonDeliveryRate: 0,
       silentAutoReleaseFrequency: 0.3,
       avgTimeToSubmitSec: 7200,
+      p50TimeToQuoteSec: 600,
+      p90TimeToQuoteSec: 1800,
+      p50TimeToSubmitSec: 7200,
+      p90TimeToSubmitSec: 21600,
+      p50TimeToSettleSec: 3600,
+      p90TimeToSettleSec: 86400,
+      sellerWinCount: 0,
+      buyerWinCount: 2,
+      splitCount: 0,
+      disputeCancelCount: 0,
+      disputeLossRate: 0.2,
+      settledVolume: '0',
     },
     curation: {
       updatedAt: 1700000000,
@@ -121,8 +168,8 @@ const fixtures: SearchListing[] = [
     },
     pricing: {
       unitType: 'AUDIT',
-      unitPrice: 500,
-      basePrice: 500,
+      unitPrice: parseTokenAmount('500', 18),
+      basePrice: parseTokenAmount('500', 18),
       minUnits: 1,
       maxUnits: 10,
     },
@@ -135,11 +182,28 @@ const fixtures: SearchListing[] = [
       settledCount: 4,
       autoReleaseCount: 0,
       cancelCount: 0,
+      buyerCancelCount: 0,
+      sellerCancelCount: 0,
+      nonDeliveryCount: 0,
+      postDisputeTimeoutCount: 0,
       acceptRate: 0.8,
       disputeRate: 0,
       cancelRate: 0,
+      nonDeliveryRate: 0,
       silentAutoReleaseFrequency: 0,
       avgTimeToSubmitSec: 18000,
+      p50TimeToQuoteSec: 600,
+      p90TimeToQuoteSec: 1800,
+      p50TimeToSubmitSec: 18000,
+      p90TimeToSubmitSec: 54000,
+      p50TimeToSettleSec: 3600,
+      p90TimeToSettleSec: 86400,
+      sellerWinCount: 0,
+      buyerWinCount: 0,
+      splitCount: 0,
+      disputeCancelCount: 0,
+      disputeLossRate: 0,
+      settledVolume: '0',
     },
     curation: {
       updatedAt: 1700000000,
@@ -175,8 +239,9 @@ const fixtures: SearchListing[] = [
     },
     pricing: {
       unitType: 'LOC',
-      unitPrice: 60,
-      basePrice: 40,
+      unitPrice: parseTokenAmount('60', 6),
+      basePrice: parseTokenAmount('40', 6),
+      decimals: 6,
       minUnits: 5,
       maxUnits: 80,
     },
@@ -189,11 +254,28 @@ const fixtures: SearchListing[] = [
       settledCount: 2,
       autoReleaseCount: 1,
       cancelCount: 1,
+      buyerCancelCount: 1,
+      sellerCancelCount: 0,
+      nonDeliveryCount: 0,
+      postDisputeTimeoutCount: 0,
       acceptRate: 0.5,
       disputeRate: 0.33,
       cancelRate: 0.16,
+      nonDeliveryRate: 0,
       silentAutoReleaseFrequency: 0.5,
       avgTimeToSubmitSec: 10000,
+      p50TimeToQuoteSec: 600,
+      p90TimeToQuoteSec: 1800,
+      p50TimeToSubmitSec: 10000,
+      p90TimeToSubmitSec: 30000,
+      p50TimeToSettleSec: 3600,
+      p90TimeToSettleSec: 86400,
+      sellerWinCount: 0,
+      buyerWinCount: 1,
+      splitCount: 0,
+      disputeCancelCount: 0,
+      disputeLossRate: 0.33,
+      settledVolume: '0',
     },
     curation: {
       updatedAt: 1700000000,
@@ -248,5 +330,107 @@ describe('searchListings', () => {
     });
 
     expect(filtered.results.map((result) => result.listingId)).toEqual([2, 4]);
+
+    const fastDelivery = searchListings(index, {
+      text: 'rust',
+      maxDeliveryWindowSec: 86400,
+    });
+    expect(fastDelivery.results.map((result) => result.listingId)).toEqual([1]);
+  });
+
+  it('keeps same-numbered listings from different deployments apart', () => {
+    const testnet = '0x' + '1'.repeat(40);
+    const mainnet = '0x' + '2'.repeat(40);
+    const [rust] = fixtures;
+    if (!rust) throw new Error('missing fixture');
+    const index = buildSearchIndex([
+      { ...rust, id: `84532:${testnet}:1`, chainId: 84532, address: testnet },
+      { ...rust, id: `8453:${mainnet}:1`, chainId: 8453, address: mainnet },
+    ]);
+
+    const everywhere = searchListings(index, { text: 'rust' });
+    expect(everywhere.results.map((result) => result.listing.id)).toEqual([
+      `8453:${mainnet}:1`,
+      `84532:${testnet}:1`,
+    ]);
+    expect(everywhere.facets.unitType).toEqual({ LOC: 2 });
+
+    const scoped = searchListings(index, {
+      text: 'rust',
+      chainId: 8453,
+      address: mainnet.toUpperCase().replace('0X', '0x'),
+    });
+    expect(scoped.results.map((result) => result.listing.chainId)).toEqual([
+      8453,
+    ]);
+    expect(scoped.facets.unitType).toEqual({ LOC: 1 });
+  });
+
+  it('compares prices across tokens only through a reference price', () => {
+    const [rust, cheaper] = fixtures;
+    if (!rust || !cheaper) throw new Error('missing fixtures');
+    const usdc = '0x00000000000000000000000000000000000000c1';
+    const weth = '0x00000000000000000000000000000000000000C4';
+    const priced = (
+      listing: SearchListing,
+      listingId: number,
+      pricing: Partial<SearchListing['pricing']>,
+    ): SearchListing => ({
+      ...listing,
+      listingId,
+      pricing: { ...listing.pricing, ...pricing },
+    });
+    // 60 USDC, 0.01 WETH (30 at the reference price) and 0.05 unpriced WETH.
+    const listings = [
+      priced(rust, 1, {
+        paymentToken: usdc,
+        symbol: 'USDC',
+        decimals: 6,
+        referencePrice: 1,
+        unitPrice: parseTokenAmount('60', 6),
+      }),
+      priced(rust, 2, {
+        paymentToken: weth,
+        symbol: 'WETH',
+        referencePrice: 3000,
+        unitPrice: parseTokenAmount('0.01', 18),
+      }),
+      priced(cheaper, 3, {
+        paymentToken: weth,
+        unitPrice: parseTokenAmount('0.05', 18),
+      }),
+    ];
+    const index = buildSearchIndex(listings);
+    const response = searchListings(index, { text: 'rust' });
+    const economics = Object.fromEntries(
+      response.results.map((result) => [
+        result.listingId,
+        result.economicsScore,
+      ]),
+    );
+
+    expect(economics).toEqual({ 1: 0, 2: 1, 3: 1 });
+    expect(response.facets.paymentToken).toEqual({
+      USDC: 1,
+      WETH: 1,
+      [weth.toLowerCase()]: 1,
+    });
+    expect(response.facets.priceBucket).toEqual({
+      '50-100': 1,
+      'under-50': 2,
+    });
+
+    const inWeth = searchListings(index, {
+      text: 'rust',
+      paymentToken: 'weth',
+    });
+    expect(inWeth.results.map((result) => result.listingId)).toEqual([2]);
+    const byAddress = searchListings(index, {
+      text: 'rust',
+      paymentToken: weth.toLowerCase(),
+    });
+    expect(byAddress.results.map((result) => result.listingId).sort()).toEqual([
+      2, 3,
+    ]);
   });
 });
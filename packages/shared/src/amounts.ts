@@ -0,0 +1,78 @@
+/**
+ * An ERC-20 amount in the token's base units, kept as a decimal integer string
+ * so 18-decimal values survive JSON and never pass through a lossy `number`.
+ */
+export type TokenAmount = string;
+
+/** Decimals assumed when a listing does not say which token it prices in. */
+export const DEFAULT_TOKEN_DECIMALS = 18;
+
+const INTEGER = /^-?\d+$/;
+const DECIMAL = /^(-?)(\d*)(?:\.(\d*))?$/;
+
+export function toTokenAmount(value: bigint | number | string): TokenAmount {
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(`Token amount ${value} is not a safe integer`);
+    }
+    return BigInt(value).toString();
+  }
+  if (!INTEGER.test(value)) {
+    throw new Error(`Token amount "${value}" is not an integer string`);
+  }
+  return BigInt(value).toString();
+}
+
+/** Converts a human-readable amount such as "1.5" into base units. */
+export function parseTokenAmount(value: string, decimals: number): TokenAmount {
+  const match = DECIMAL.exec(value.trim());
+  if (!match || (match[2] === '' && !match[3])) {
+    throw new Error(`Cannot parse token amount "${value}"`);
+  }
+  const [, sign, whole, fraction = ''] = match;
+  if (fraction.length > decimals) {
+    throw new Error(
+      `Token amount "${value}" has more than ${decimals} decimal places`,
+    );
+  }
+  const units = BigInt(`${whole || '0'}${fraction.padEnd(decimals, '0')}`);
+  return (sign ? -units : units).toString();
+}
+
+export type FormatTokenAmountOptions = {
+  /** Fraction digits to keep; the rest are truncated. Defaults to all. */
+  maxFractionDigits?: number;
+};
+
+/** Renders base units as a decimal string, e.g. "1500000000000000000" → "1.5". */
+export function formatTokenAmount(
+  amount: TokenAmount,
+  decimals: number,
+  options: FormatTokenAmountOptions = {},
+): string {
+  const units = BigInt(amount);
+  const negative = units < 0n;
+  const digits = (negative ? -units : units)
+    .toString()
+    .padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  let fraction = digits.slice(digits.length - decimals);
+  if (options.maxFractionDigits !== undefined) {
+    fraction = fraction.slice(0, options.maxFractionDigits);
+  }
+  fraction = fraction.replace(/0+$/, '');
+  const formatted = fraction ? `${whole}.${fraction}` : whole;
+  return negative && formatted !== '0' ? `-${formatted}` : formatted;
+}
+
+/**
+ * Approximates an amount in whole tokens. Only for ranking and bucketing;
+ * anything that has to reconcile must stay on `TokenAmount`.
+ */
+export function tokenAmountToNumber(
+  amount: TokenAmount,
+  decimals: number,
+): number {
+  return Number(formatTokenAmount(amount, decimals));
+}
@@ -1,3 +1,50 @@
 export function formatAgentId(id: number) {
   return `agent-${id}`;
 }
+
+/**
+ * One marketplace deployment: the chain it lives on and the address of its
+ * `TaskMarket`. Listing, task and agent IDs are only unique within one.
+ */
+export type DeploymentRef = {
+  chainId: number;
+  /** Lowercased by `formatDeploymentKey` and `formatCompositeId`. */
+  address: string;
+};
+
+/** A record ID qualified by its deployment, e.g. `8453:0xabc…:42`. */
+export type CompositeId = string;
+
+const ADDRESS = /^0x[0-9a-f]{40}$/;
+const COMPOSITE_ID = /^(\d+):(0x[0-9a-f]{40}):(\d+)$/;
+
+export function formatDeploymentKey(deployment: DeploymentRef): string {
+  const address = deployment.address.toLowerCase();
+  if (!Number.isSafeInteger(deployment.chainId) || deployment.chainId <= 0) {
+    throw new Error(`Invalid chain ID ${deployment.chainId}`);
+  }
+  if (!ADDRESS.test(address)) {
+    throw new Error(`Invalid contract address ${deployment.address}`);
+  }
+  return `${deployment.chainId}:${address}`;
+}
+
+export function formatCompositeId(
+  deployment: DeploymentRef,
+  id: number,
+): CompositeId {
+  return `${formatDeploymentKey(deployment)}:${id}`;
+}
+
+/** Null when `value` is not a composite ID; the address may be checksummed. */
+export function parseCompositeId(
+  value: string,
+): (DeploymentRef & { id: number }) | null {
+  const match = COMPOSITE_ID.exec(value.toLowerCase());
+  if (!match) return null;
+  const chainId = Number(match[1]);
+  const id = Number(match[3]);
+  if (!Number.isSafeInteger(chainId) || chainId <= 0) return null;
+  if (!Number.isSafeInteger(id)) return null;
+  return { chainId, address: match[2] as string, id };
+}
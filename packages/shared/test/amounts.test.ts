@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatTokenAmount,
+  parseTokenAmount,
+  toTokenAmount,
+  tokenAmountToNumber,
+} from '../src/amounts';
+
+describe('token amounts', () => {
+  it('keeps amounts above 2^53 exact', () => {
+    const amount = toTokenAmount(2n ** 64n + 1n);
+    expect(amount).toBe('18446744073709551617');
+    expect(JSON.parse(JSON.stringify({ amount }))).toEqual({ amount });
+    expect(() => toTokenAmount(2 ** 53)).toThrow(/safe integer/);
+    expect(() => toTokenAmount('1.5')).toThrow(/integer string/);
+  });
+
+  it('parses and formats decimal amounts', () => {
+    expect(parseTokenAmount('1.5', 18)).toBe('1500000000000000000');
+    expect(parseTokenAmount('.25', 6)).toBe('250000');
+    expect(parseTokenAmount('42', 0)).toBe('42');
+    expect(() => parseTokenAmount('0.0000001', 6)).toThrow(/decimal places/);
+    expect(() => parseTokenAmount('abc', 18)).toThrow(/Cannot parse/);
+
+    expect(formatTokenAmount('1500000000000000000', 18)).toBe('1.5');
+    expect(formatTokenAmount('250000', 6)).toBe('0.25');
+    expect(formatTokenAmount('-5', 2)).toBe('-0.05');
+    expect(formatTokenAmount('0', 18)).toBe('0');
+    expect(
+      formatTokenAmount('1234567890000000000', 18, { maxFractionDigits: 2 }),
+    ).toBe('1.23');
+  });
+
+  it('approximates whole tokens for ranking', () => {
+    expect(tokenAmountToNumber('2500000000000000000', 18)).toBe(2.5);
+  });
+});
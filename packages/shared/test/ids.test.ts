@@ -1,8 +1,42 @@
 import { describe, expect, it } from "vitest";
-import { formatAgentId } from "../src/ids";
+import {
+  formatAgentId,
+  formatCompositeId,
+  formatDeploymentKey,
+  parseCompositeId,
+} from "../src/ids";
+
+const MARKET = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
 
 describe("formatAgentId", () => {
   it("formats numeric ids", () => {
     expect(formatAgentId(7)).toBe("agent-7");
   });
 });
+
+describe("composite ids", () => {
+  it("round-trips ids qualified by chain and lowercased address", () => {
+    const id = formatCompositeId({ chainId: 8453, address: MARKET }, 42);
+    expect(id).toBe(`8453:${MARKET.toLowerCase()}:42`);
+    expect(parseCompositeId(id)).toEqual({
+      chainId: 8453,
+      address: MARKET.toLowerCase(),
+      id: 42,
+    });
+    expect(parseCompositeId(`8453:${MARKET}:42`)).toEqual(
+      parseCompositeId(id),
+    );
+  });
+
+  it("rejects malformed deployments and ids", () => {
+    expect(() => formatDeploymentKey({ chainId: 0, address: MARKET })).toThrow(
+      "Invalid chain ID",
+    );
+    expect(() => formatDeploymentKey({ chainId: 1, address: "0x1" })).toThrow(
+      "Invalid contract address",
+    );
+    for (const value of ["42", `1:${MARKET}`, `0:${MARKET}:1`, `1:0x1:1`]) {
+      expect(parseCompositeId(value)).toBeNull();
+    }
+  });
+});